@@ -90,6 +90,8 @@ export default tseslint.config(
             "jest/valid-title": "off",
             "unicorn/consistent-function-scoping": "off",
             "unicorn/no-useless-spread": "off",
+            // @types/jest 30 requires an argument: mockResolvedValue(undefined).
+            "unicorn/no-useless-undefined": ["error", { "checkArguments": false }],
         },
     }
 );
@@ -0,0 +1,90 @@
+// Credentials shared by a client or pool across reconnects: static
+// tokens, token provider functions (refreshed ahead of their expiry) and
+// the OAuth login flow.
+
+import { AuthenticationError } from './errors';
+import { oauthLogin } from './oauth';
+import { FlightClientConfig, TokenProvider } from './types';
+
+/** Tokens are renewed this long before their `expiresAt` (at most half their lifetime). */
+const REFRESH_MARGIN_MS = 60_000;
+
+/** A client config whose `token`, if any, is a plain string. */
+export type ResolvedConfig = FlightClientConfig & { token?: string };
+
+interface CurrentToken {
+  token: string;
+  /** Epoch ms after which the token is due for renewal. */
+  refreshAt?: number;
+}
+
+/**
+ * Holds the token a client or pool connects with so reconnects reuse it.
+ * Provider and OAuth tokens are fetched lazily, renewed once they are
+ * about to expire, and `invalidate()` forces a fresh one (e.g. after the
+ * server answered Unauthenticated).
+ */
+export class AuthSession {
+  private current: Promise<CurrentToken> | null = null;
+  private refreshAt: number | undefined;
+
+  constructor(private readonly config: FlightClientConfig) {}
+
+  /** Whether the token comes from a provider or OAuth login and can be renewed. */
+  get refreshable(): boolean {
+    return typeof this.config.token === 'function' || this.config.authType === 'oauth';
+  }
+
+  /** Whether the current token is due for renewal. */
+  get expiring(): boolean {
+    return this.refreshAt !== undefined && Date.now() >= this.refreshAt;
+  }
+
+  /** The config to connect with, carrying a current string token. */
+  async resolveConfig(): Promise<ResolvedConfig> {
+    if (!this.refreshable) return this.config as ResolvedConfig;
+    if (this.expiring) this.invalidate();
+    const pending = (this.current ??= this.fetchToken());
+    try {
+      const { token, refreshAt } = await pending;
+      if (this.current === pending) this.refreshAt = refreshAt;
+      return { ...this.config, token };
+    } catch (error) {
+      if (this.current === pending) this.current = null;
+      throw error;
+    }
+  }
+
+  invalidate(): void {
+    this.current = null;
+    this.refreshAt = undefined;
+  }
+
+  private async fetchToken(): Promise<CurrentToken> {
+    if (this.config.authType === 'oauth') {
+      return { token: await oauthLogin(this.config) };
+    }
+    const provider = this.config.token as TokenProvider;
+    let issued: Awaited<ReturnType<TokenProvider>>;
+    try {
+      issued = await provider();
+    } catch (error) {
+      throw new AuthenticationError(`Token provider failed: ${(error as Error)?.message ?? error}`);
+    }
+    const token = typeof issued === 'string' ? issued : issued?.token;
+    if (typeof token !== 'string' || token === '') {
+      throw new AuthenticationError('Token provider returned no token');
+    }
+    if (typeof issued === 'string' || issued.expiresAt === undefined) {
+      return { token };
+    }
+    const expiresAt = new Date(issued.expiresAt).getTime();
+    const lifetime = Math.max(0, expiresAt - Date.now());
+    return { token, refreshAt: expiresAt - Math.min(REFRESH_MARGIN_MS, lifetime / 2) };
+  }
+}
+
+/** Whether `error` is the server rejecting the credentials the call was made with. */
+export function isUnauthenticated(error: unknown): boolean {
+  return (error as { code?: unknown } | undefined)?.code === 'Unauthenticated';
+}
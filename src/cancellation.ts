@@ -0,0 +1,94 @@
+// Per-call cancellation for query methods: an optional AbortSignal plus
+// an optional timeout, surfaced as QueryCancelledError/QueryTimeoutError.
+
+import { QueryCancelledError, QueryTimeoutError } from './errors';
+import { QueryOptions } from './types';
+
+/**
+ * Tracks the abort signal and timeout of one query call.
+ *
+ * `run()` races driver work against cancellation so the caller is
+ * rejected as soon as the call is aborted; hooks registered with
+ * `onCancel()` (statement/reader cancellation) fire once at that point
+ * so the work is also stopped on the server. Call `dispose()` when the
+ * call is finished.
+ */
+export class CancelScope {
+  private error: QueryCancelledError | null = null;
+  private hooks: Array<() => void> = [];
+  private rejectors = new Set<(error: Error) => void>();
+  private timer: NodeJS.Timeout | undefined;
+  private readonly signal: AbortSignal | undefined;
+  /** Whether this call can be cancelled at all (signal or timeout set). */
+  readonly cancellable: boolean;
+  private readonly onAbort = () => this.cancel(new QueryCancelledError());
+
+  constructor(options: QueryOptions = {}, defaultTimeoutMs?: number) {
+    this.signal = options.signal;
+    const timeoutMs = options.timeoutMs ?? defaultTimeoutMs;
+    this.cancellable = this.signal !== undefined || (timeoutMs !== undefined && timeoutMs > 0);
+    if (this.signal?.aborted) {
+      this.error = new QueryCancelledError();
+      return;
+    }
+    this.signal?.addEventListener('abort', this.onAbort, { once: true });
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      this.timer = setTimeout(() => this.cancel(new QueryTimeoutError(timeoutMs)), timeoutMs);
+      this.timer.unref?.();
+    }
+  }
+
+  get cancelled(): boolean {
+    return this.error !== null;
+  }
+
+  /** Registers a hook to run on cancellation (immediately if already cancelled). */
+  onCancel(hook: () => void): void {
+    if (this.error) {
+      runHook(hook);
+    } else {
+      this.hooks.push(hook);
+    }
+  }
+
+  throwIfCancelled(): void {
+    if (this.error) throw this.error;
+  }
+
+  /** Resolves with `work`, or rejects as soon as the call is cancelled. */
+  run<T>(work: Promise<T>): Promise<T> {
+    if (this.error) {
+      work.catch(() => {});
+      return Promise.reject(this.error);
+    }
+    return new Promise<T>((resolve, reject) => {
+      this.rejectors.add(reject);
+      work.then(resolve, reject).finally(() => this.rejectors.delete(reject));
+    });
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+
+  private cancel(error: QueryCancelledError): void {
+    if (this.error) return;
+    this.error = error;
+    this.dispose();
+    const hooks = this.hooks;
+    this.hooks = [];
+    for (const hook of hooks) runHook(hook);
+    for (const reject of this.rejectors) reject(error);
+    this.rejectors.clear();
+  }
+}
+
+function runHook(hook: () => void): void {
+  try {
+    hook();
+  } catch {
+    // Cancellation is best-effort; the caller is rejected regardless.
+  }
+}
@@ -0,0 +1,285 @@
+// Building client configs from gizmosql:// connection URIs, GIZMOSQL_*
+// environment variables and named profiles in a JSON profile file.
+// Values are never echoed in errors, since they carry credentials.
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import path from 'node:path';
+import { FlightError } from './errors';
+import { FlightClientConfig, ProfileOptions } from './types';
+import { validateConfig } from './utils';
+
+/** Default GizmoSQL Flight SQL port. */
+export const DEFAULT_PORT = 31337;
+
+type OptionKind = 'string' | 'boolean' | 'integer' | 'authType';
+
+/** Config fields settable from a URI query or the environment, by value kind. */
+const OPTION_KINDS = {
+  host: 'string',
+  port: 'integer',
+  plaintext: 'boolean',
+  tlsSkipVerify: 'boolean',
+  tlsRootCerts: 'string',
+  tlsClientCert: 'string',
+  tlsClientKey: 'string',
+  tlsServerNameOverride: 'string',
+  username: 'string',
+  password: 'string',
+  token: 'string',
+  authType: 'authType',
+  oauthPort: 'integer',
+  autocommit: 'boolean',
+  defaultQueryTimeoutMs: 'integer',
+} satisfies Partial<Record<keyof FlightClientConfig, OptionKind>>;
+
+type OptionName = keyof typeof OPTION_KINDS;
+
+const AUTH_TYPES = new Set(['basic', 'token', 'oauth']);
+
+/** Profile fields that take `true`/`false` or an options object. */
+const SWITCH_FIELDS = new Set(['tracing', 'cache']);
+
+/** Environment variable names that differ from GIZMOSQL_<SNAKE_CASE_FIELD>. */
+const ENV_ALIASES: Partial<Record<OptionName, string[]>> = {
+  username: ['GIZMOSQL_USER', 'GIZMOSQL_USERNAME'],
+};
+
+/**
+ * Parses `gizmosql://[user[:password]@]host[:port][?option=value&...]`.
+ * The port defaults to 31337, user info is percent-decoded, and
+ * `transport=tcp` selects a plaintext connection. Any
+ * `FlightClientConfig` option with a scalar value (`tlsSkipVerify`,
+ * `oauthPort`, `token`, `tlsRootCerts`, ...) may be given as a query
+ * parameter.
+ */
+export function parseConnectionUri(uri: string): FlightClientConfig {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new FlightError('Invalid connection URI');
+  }
+  if (url.protocol !== 'gizmosql:') {
+    throw new FlightError('Connection URI must use the gizmosql:// scheme');
+  }
+  if (url.pathname !== '' && url.pathname !== '/') {
+    throw new FlightError('Connection URI must not have a path');
+  }
+  const config: FlightClientConfig = { host: url.hostname, port: DEFAULT_PORT };
+  if (url.port !== '') {
+    config.port = Number(url.port);
+  }
+  if (url.username !== '') {
+    config.username = decodeUserInfo(url.username, 'user name');
+  }
+  if (url.password !== '') {
+    config.password = decodeUserInfo(url.password, 'password');
+  }
+  const seen = new Set<string>();
+  for (const [name, value] of url.searchParams) {
+    if (seen.has(name)) {
+      throw new FlightError(`Connection URI parameter '${name}' is given more than once`);
+    }
+    seen.add(name);
+    if (name === 'transport') {
+      if (value !== 'tcp' && value !== 'tls') {
+        throw new FlightError("Connection URI parameter 'transport' must be tcp or tls");
+      }
+      config.plaintext = value === 'tcp';
+    } else if (isOptionName(name) && name !== 'host' && name !== 'port') {
+      setOption(config, name, value, `Connection URI parameter '${name}'`);
+    } else {
+      throw new FlightError(`Unknown connection URI parameter '${name}'`);
+    }
+  }
+  if (!config.host) {
+    throw new FlightError('Connection URI must include a host');
+  }
+  validateConfig(config);
+  return config;
+}
+
+/**
+ * Reads a config from `GIZMOSQL_HOST`, `GIZMOSQL_PORT` (default 31337),
+ * `GIZMOSQL_USER` (or `GIZMOSQL_USERNAME`), `GIZMOSQL_PASSWORD`,
+ * `GIZMOSQL_TOKEN`, and `GIZMOSQL_<OPTION>` for the other scalar
+ * options (e.g. `GIZMOSQL_TLS_SKIP_VERIFY`, `GIZMOSQL_OAUTH_PORT`).
+ * Empty variables are ignored.
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): FlightClientConfig {
+  const config: FlightClientConfig = { host: '', port: DEFAULT_PORT };
+  for (const name of Object.keys(OPTION_KINDS) as OptionName[]) {
+    for (const variable of envNames(name)) {
+      const value = env[variable];
+      if (value !== undefined && value !== '') {
+        setOption(config, name, value, variable);
+        break;
+      }
+    }
+  }
+  if (!config.host) {
+    throw new FlightError('GIZMOSQL_HOST is not set');
+  }
+  validateConfig(config);
+  return config;
+}
+
+/**
+ * Loads a named profile from a JSON profile file:
+ *
+ *     { "default": "staging",
+ *       "profiles": { "staging": { "host": "...", "token": "${STAGING_TOKEN}" } } }
+ *
+ * Without `name`, `GIZMOSQL_PROFILE` or the file's `default` is used.
+ * Profiles may set any `FlightClientConfig` field that JSON can hold
+ * (`retry` and `oauth` as objects, `tracing` and `cache` as a boolean
+ * or an object); `${VAR}` in string values is replaced from the
+ * environment, and scalar options may also be given as strings.
+ */
+export function loadProfile(name?: string, options: ProfileOptions = {}): FlightClientConfig {
+  const env = options.env ?? process.env;
+  const file = options.file ?? (env.GIZMOSQL_PROFILES_FILE || defaultProfilesFile());
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new FlightError(`Cannot read profile file ${file}: ${(error as Error).message}`);
+  }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // The parser's message may quote the file's content, secrets included.
+    throw new FlightError(`Profile file ${file} is not valid JSON`);
+  }
+  const profiles = parsed?.profiles;
+  if (!isPlainObject(profiles)) {
+    throw new FlightError(`Profile file ${file} has no "profiles" object`);
+  }
+  const selected = name ?? (env.GIZMOSQL_PROFILE || parsed.default);
+  if (typeof selected !== 'string' || selected === '') {
+    throw new FlightError(`No profile name given and ${file} has no default profile`);
+  }
+  const profile = Object.prototype.hasOwnProperty.call(profiles, selected)
+    ? profiles[selected]
+    : undefined;
+  if (!isPlainObject(profile)) {
+    const available = Object.keys(profiles).join(', ') || 'none';
+    throw new FlightError(`Profile '${selected}' not found in ${file} (available: ${available})`);
+  }
+
+  const label = `Profile '${selected}'`;
+  const config: FlightClientConfig = { host: '', port: DEFAULT_PORT };
+  for (const [field, raw] of Object.entries(profile)) {
+    const value = expandEnv(raw, env, `${label} field '${field}'`);
+    if (field === 'retry' || field === 'oauth') {
+      if (!isPlainObject(value)) {
+        throw new FlightError(`${label} field '${field}' must be an object`);
+      }
+      (config as unknown as Record<string, unknown>)[field] = value;
+    } else if (SWITCH_FIELDS.has(field)) {
+      (config as unknown as Record<string, unknown>)[field] = switchValue(value, `${label} field '${field}'`);
+    } else if (!isOptionName(field)) {
+      throw new FlightError(`${label} has unknown field '${field}'`);
+    } else if (typeof value !== 'string' && ['string', 'authType'].includes(OPTION_KINDS[field])) {
+      throw new FlightError(`${label} field '${field}' must be a string`);
+    } else {
+      // JSON booleans and numbers go through the same checks as strings.
+      setOption(config, field, String(value), `${label} field '${field}'`);
+    }
+  }
+  if (!config.host) {
+    throw new FlightError(`${label} has no host`);
+  }
+  validateConfig(config);
+  return config;
+}
+
+function defaultProfilesFile(): string {
+  return path.join(homedir(), '.gizmosql', 'profiles.json');
+}
+
+/** Replaces `${VAR}` in the strings of `value` (recursively) from `env`. */
+function expandEnv(value: unknown, env: NodeJS.ProcessEnv, label: string): unknown {
+  if (typeof value === 'string') {
+    // Splitting on the capture group leaves variable names at odd indices.
+    const parts = value.split(/\$\{([A-Za-z_]\w*)\}/);
+    for (let i = 1; i < parts.length; i += 2) {
+      const resolved = env[parts[i]!];
+      if (resolved === undefined) {
+        throw new FlightError(`${label} refers to unset environment variable ${parts[i]}`);
+      }
+      parts[i] = resolved;
+    }
+    return parts.join('');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => expandEnv(item, env, label));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandEnv(item, env, label)])
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The environment variables read for `name`, in order of precedence. */
+function envNames(name: OptionName): string[] {
+  return ENV_ALIASES[name] ?? [`GIZMOSQL_${name.split(/(?=[A-Z])/).join('_').toUpperCase()}`];
+}
+
+function isOptionName(name: string): name is OptionName {
+  return Object.prototype.hasOwnProperty.call(OPTION_KINDS, name);
+}
+
+/** Converts `value` per the option's kind; `label` names the source in errors. */
+function setOption(config: FlightClientConfig, name: OptionName, value: string, label: string): void {
+  const target = config as unknown as Record<string, unknown>;
+  switch (OPTION_KINDS[name] as OptionKind) {
+    case 'boolean': {
+      if (value !== 'true' && value !== 'false') {
+        throw new FlightError(`${label} must be true or false`);
+      }
+      target[name] = value === 'true';
+      break;
+    }
+    case 'integer': {
+      if (!/^\d+$/.test(value) || Number(value) <= 0) {
+        throw new FlightError(`${label} must be a positive integer`);
+      }
+      target[name] = Number(value);
+      break;
+    }
+    case 'authType': {
+      if (!AUTH_TYPES.has(value)) {
+        throw new FlightError(`${label} must be basic, token or oauth`);
+      }
+      target[name] = value;
+      break;
+    }
+    default: {
+      target[name] = value;
+    }
+  }
+}
+
+/** A boolean (or 'true'/'false') or an options object, as is. */
+function switchValue(value: unknown, label: string): boolean | Record<string, unknown> {
+  if (typeof value === 'boolean' || isPlainObject(value)) return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  throw new FlightError(`${label} must be true, false or an object`);
+}
+
+function decodeUserInfo(value: string, part: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new FlightError(`Connection URI ${part} is not validly percent-encoded`);
+  }
+}
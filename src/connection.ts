@@ -0,0 +1,98 @@
+// Config → ADBC mapping shared by FlightSQLClient and FlightSQLPool:
+// the gizmosql:// URI, database options, and connection setup.
+
+import { readFileSync } from 'node:fs';
+import { AdbcConnection, AdbcDatabase } from '@apache-arrow/adbc-driver-manager';
+import { FlightClientConfig } from './types';
+import { FlightError } from './errors';
+import { resolveDriverLib } from './driver-lib';
+
+/** ADBC connection option controlling autocommit ('true' / 'false'). */
+export const AUTOCOMMIT_OPTION = 'adbc.connection.autocommit';
+
+/** Builds the gizmosql:// URI for the configured host/port/transport. */
+export function connectionUri(config: FlightClientConfig): string {
+  const transport = config.plaintext ? '?transport=tcp' : '';
+  return `gizmosql://${config.host}:${config.port}${transport}`;
+}
+
+/** PEM contents of the configured TLS certificates and key. */
+export interface TlsMaterial {
+  rootCerts?: string;
+  clientCert?: string;
+  clientKey?: string;
+}
+
+/**
+ * Loads `tlsRootCerts` / `tlsClientCert` / `tlsClientKey`: values that
+ * contain a PEM block are used as-is, anything else is read as a file.
+ */
+export function tlsMaterial(config: FlightClientConfig): TlsMaterial {
+  return {
+    rootCerts: readPem(config.tlsRootCerts, 'tlsRootCerts'),
+    clientCert: readPem(config.tlsClientCert, 'tlsClientCert'),
+    clientKey: readPem(config.tlsClientKey, 'tlsClientKey'),
+  };
+}
+
+/** Maps the client config onto ADBC database options. */
+export function databaseOptions(config: FlightClientConfig): Record<string, string> {
+  const options: Record<string, string> = { uri: connectionUri(config) };
+  if (config.tlsSkipVerify) {
+    options['adbc.flight.sql.client_option.tls_skip_verify'] = 'true';
+  }
+  const tls = tlsMaterial(config);
+  if (tls.rootCerts) {
+    options['adbc.flight.sql.client_option.tls_root_certs'] = tls.rootCerts;
+  }
+  if (tls.clientCert) {
+    options['adbc.flight.sql.client_option.mtls_cert_chain'] = tls.clientCert;
+  }
+  if (tls.clientKey) {
+    options['adbc.flight.sql.client_option.mtls_private_key'] = tls.clientKey;
+  }
+  if (config.tlsServerNameOverride) {
+    options['adbc.flight.sql.client_option.tls_override_hostname'] = config.tlsServerNameOverride;
+  }
+  if (typeof config.token === 'string' && config.token && config.authType !== 'basic') {
+    options['adbc.flight.sql.authorization_header'] = `Bearer ${config.token}`;
+  } else if (config.username !== undefined && config.password !== undefined) {
+    options.username = config.username;
+    options.password = config.password;
+  }
+  return options;
+}
+
+/** Loads the native driver and opens an ADBC database for `config`. */
+export function openDatabase(config: FlightClientConfig): AdbcDatabase {
+  return new AdbcDatabase({
+    driver: resolveDriverLib(),
+    databaseOptions: databaseOptions(config),
+  });
+}
+
+/** Opens a connection on `db` with the config's connection-level options applied. */
+export async function openConnection(
+  db: AdbcDatabase,
+  config: FlightClientConfig
+): Promise<AdbcConnection> {
+  const conn = await db.connect();
+  if (config.autocommit === false) {
+    try {
+      await conn.setOption(AUTOCOMMIT_OPTION, 'false');
+    } catch (error) {
+      await conn.close().catch(() => {});
+      throw error;
+    }
+  }
+  return conn;
+}
+
+function readPem(value: string | undefined, option: string): string | undefined {
+  if (!value || value.includes('-----BEGIN ')) return value;
+  try {
+    return readFileSync(value, 'utf8');
+  } catch (error) {
+    throw new FlightError(`Cannot read ${option} from ${value}: ${(error as Error).message}`);
+  }
+}
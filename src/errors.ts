@@ -31,4 +31,18 @@ export class SchemaError extends FlightError {
     super(message);
     this.name = 'SchemaError';
   }
-}
\ No newline at end of file
+}
+
+export class QueryCancelledError extends FlightError {
+  constructor(message: string = 'Query was cancelled') {
+    super(message, 'Cancelled');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+export class QueryTimeoutError extends QueryCancelledError {
+  constructor(public timeoutMs: number) {
+    super(`Query timed out after ${timeoutMs}ms`);
+    this.name = 'QueryTimeoutError';
+  }
+}
@@ -0,0 +1,201 @@
+// Lifecycle events of a client or pool (connect/disconnect and the start,
+// end or failure of each query and metadata call), the tracing span of
+// each call, and an adapter that writes them to a pino- or console-style
+// logger.
+
+import { randomUUID } from 'node:crypto';
+import { performance } from 'node:perf_hooks';
+import { RecordBatch, Table } from 'apache-arrow';
+import { QuerySpan, QueryTracer } from './tracing';
+import {
+  ClientEventListener,
+  ClientEventMap,
+  ClientEventName,
+  ClientEventSource,
+  EventLogger,
+  LoggerOptions,
+  QueryEvent,
+} from './types';
+
+const DEFAULT_SLOW_QUERY_MS = 1000;
+
+/**
+ * Listeners for the events of one client, or of a pool and its clients,
+ * and the tracer that spans their calls when tracing is enabled.
+ * Listeners run synchronously; an exception thrown by one is ignored so
+ * that observing a call can never fail it.
+ */
+export class ClientEvents {
+  private listeners = new Map<ClientEventName, Set<(event: any) => void>>();
+
+  constructor(
+    private readonly redactSql?: (sql: string) => string,
+    private readonly tracer?: QueryTracer
+  ) {}
+
+  /** Whether calls are traced, i.e. trace context should reach the driver. */
+  get tracing(): boolean {
+    return this.tracer !== undefined;
+  }
+
+  on<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+  }
+
+  off<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<E extends ClientEventName>(event: E, payload: ClientEventMap[E]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch {
+        // A faulty listener must not break the call it observes.
+      }
+    }
+  }
+
+  /** Emits `query:start` for a new call, starts its span and returns its tracker. */
+  startQuery(operation: string, sql?: string): QueryCall {
+    const event: QueryEvent = { id: randomUUID(), operation };
+    if (sql !== undefined) {
+      event.sql = this.redact(sql);
+    }
+    const span = this.tracer?.startSpan(operation, event.sql);
+    this.emit('query:start', event);
+    return new QueryCall(this, event, span);
+  }
+
+  private redact(sql: string): string {
+    if (!this.redactSql) return sql;
+    try {
+      return this.redactSql(sql);
+    } catch {
+      return '[redaction failed]';
+    }
+  }
+}
+
+/**
+ * One traced call: counts its result, then emits `query:end` or
+ * `query:error` and ends its span once.
+ */
+export class QueryCall {
+  private readonly started = performance.now();
+  private rowCount: number | undefined;
+  private byteCount: number | undefined;
+  private done = false;
+
+  constructor(
+    private readonly events: ClientEvents,
+    private readonly event: QueryEvent,
+    private readonly span?: QuerySpan
+  ) {}
+
+  /** W3C `traceparent` of the call's span; empty when not traced. */
+  get traceParent(): string {
+    return this.span?.traceParent ?? '';
+  }
+
+  /** Runs `fn` inside the call's span, so calls it makes are nested under it. */
+  within<T>(fn: () => T): T {
+    return this.span ? this.span.within(fn) : fn();
+  }
+
+  /** Counts the rows and bytes of Arrow result data; anything else is ignored. */
+  record(data: unknown): void {
+    if (!(data instanceof Table || data instanceof RecordBatch)) return;
+    const batches = data instanceof Table ? data.batches : [data];
+    this.rowCount = (this.rowCount ?? 0) + data.numRows;
+    this.byteCount = (this.byteCount ?? 0) + batches.reduce((sum, batch) => sum + batch.data.byteLength, 0);
+  }
+
+  /**
+   * Emits `query:end`. Without recorded data, a Table result is counted,
+   * an array counts as rows and a number as a row count (e.g. ingest).
+   */
+  end(result?: unknown): void {
+    if (this.done) return;
+    this.done = true;
+    if (this.rowCount === undefined) {
+      if (Array.isArray(result)) {
+        this.rowCount = result.length;
+      } else if (typeof result === 'number') {
+        this.rowCount = result;
+      } else {
+        this.record(result);
+      }
+    }
+    this.events.emit('query:end', {
+      ...this.event,
+      durationMs: this.elapsed(),
+      ...(this.rowCount === undefined ? {} : { rowCount: this.rowCount }),
+      ...(this.byteCount === undefined ? {} : { byteCount: this.byteCount }),
+    });
+    this.span?.end(this.rowCount);
+  }
+
+  fail(error: unknown): void {
+    if (this.done) return;
+    this.done = true;
+    const err = error instanceof Error ? error : new Error(String(error));
+    const code = (error as { code?: unknown } | null)?.code;
+    this.events.emit('query:error', {
+      ...this.event,
+      durationMs: this.elapsed(),
+      error: err,
+      ...(typeof code === 'string' ? { code } : {}),
+    });
+    this.span?.fail(err, typeof code === 'string' ? code : undefined);
+  }
+
+  private elapsed(): number {
+    return performance.now() - this.started;
+  }
+}
+
+/**
+ * Writes the events of a client or pool to `logger`: connects and
+ * disconnects at info level, finished queries at debug level (warn once
+ * they take `slowQueryMs` or longer) and failed queries at error level.
+ * Returns a function that detaches the logger again.
+ */
+export function attachLogger(
+  source: ClientEventSource,
+  logger: EventLogger,
+  options: LoggerOptions = {}
+): () => void {
+  const slowQueryMs = options.slowQueryMs ?? DEFAULT_SLOW_QUERY_MS;
+  const listeners: { [E in ClientEventName]?: ClientEventListener<E> } = {
+    connect: (event) => logger.info({ event: 'connect', ...event }, 'Connected to GizmoSQL'),
+    disconnect: (event) => logger.info({ event: 'disconnect', ...event }, 'Disconnected from GizmoSQL'),
+    'query:end': (event) => {
+      const fields = { event: 'query:end', ...event };
+      if (event.durationMs >= slowQueryMs) {
+        logger.warn(fields, 'Slow query');
+      } else {
+        logger.debug(fields, 'Query finished');
+      }
+    },
+    'query:error': ({ error, ...event }) =>
+      logger.error({ event: 'query:error', ...event, error: error.message }, 'Query failed'),
+  };
+  if (options.logQueryStart) {
+    listeners['query:start'] = (event) => logger.debug({ event: 'query:start', ...event }, 'Query started');
+  }
+  const entries = Object.entries(listeners) as Array<[ClientEventName, ClientEventListener<any>]>;
+  for (const [event, listener] of entries) {
+    source.on(event, listener);
+  }
+  return () => {
+    for (const [event, listener] of entries) {
+      source.off(event, listener);
+    }
+  };
+}
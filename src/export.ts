@@ -0,0 +1,198 @@
+// Writing query results to files or Node streams as CSV, NDJSON or
+// Arrow IPC, one record batch at a time.
+
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { AsyncByteQueue, RecordBatchFileWriter, RecordBatchStreamWriter, Table } from 'apache-arrow';
+import { FlightSQLError } from './errors';
+import { tableToArrays, tableToObjects } from './rows';
+import { ExportFormat, ExportOptions, RecordBatchStream, RowConversionOptions } from './types';
+
+const EXPORT_FORMATS: readonly ExportFormat[] = [
+  'csv',
+  'ndjson',
+  'arrow-ipc-file',
+  'arrow-ipc-stream',
+];
+
+/** Text formats write exact values: 64-bit integers and decimals as digits, timestamps as ISO. */
+const TEXT_CONVERSION: RowConversionOptions = { bigint: 'string', decimal: 'string', timestamp: 'iso' };
+
+interface Sink {
+  write(chunk: string | Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  /** Tears the destination down after a failure. */
+  abort(): void;
+}
+
+export function checkExportFormat(format: string): void {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new FlightSQLError(
+      `Unsupported export format '${format}' (expected one of: ${EXPORT_FORMATS.join(', ')})`
+    );
+  }
+}
+
+/**
+ * Writes every batch of `stream` to `destination` in `options.format`
+ * and resolves with the number of rows written. A file path is created
+ * (or truncated) and closed when done; a caller-supplied `Writable` is
+ * left open. Closing `stream` is left to the caller, since a failure
+ * may come before its first batch is read.
+ */
+export async function writeExport(
+  stream: RecordBatchStream,
+  destination: string | Writable,
+  options: ExportOptions
+): Promise<number> {
+  let sink: Sink | undefined;
+  try {
+    sink = openSink(destination);
+    const rows = await writeFormat(stream, sink, options);
+    await sink.close();
+    return rows;
+  } catch (error) {
+    sink?.abort();
+    throw error;
+  }
+}
+
+function writeFormat(stream: RecordBatchStream, sink: Sink, options: ExportOptions): Promise<number> {
+  switch (options.format) {
+    case 'csv':
+      return writeCsv(stream, sink, options);
+    case 'ndjson':
+      return writeNdjson(stream, sink);
+    case 'arrow-ipc-file':
+      return writeIpc(stream, sink, new RecordBatchFileWriter());
+    case 'arrow-ipc-stream':
+      return writeIpc(stream, sink, new RecordBatchStreamWriter());
+  }
+}
+
+async function writeCsv(stream: RecordBatchStream, sink: Sink, options: ExportOptions): Promise<number> {
+  const delimiter = options.delimiter ?? ',';
+  const nullText = options.nullText ?? '';
+  const line = (values: unknown[]) =>
+    values.map((value) => csvField(value, delimiter, nullText)).join(delimiter) + '\n';
+
+  if (options.header ?? true) {
+    await sink.write(line(stream.schema.fields.map((field) => field.name)));
+  }
+  let rows = 0;
+  for await (const batch of stream) {
+    await sink.write(tableToArrays(new Table(batch), TEXT_CONVERSION).map((values) => line(values)).join(''));
+    rows += batch.numRows;
+  }
+  return rows;
+}
+
+async function writeNdjson(stream: RecordBatchStream, sink: Sink): Promise<number> {
+  let rows = 0;
+  for await (const batch of stream) {
+    const lines = tableToObjects(new Table(batch), TEXT_CONVERSION).map(
+      (row) => JSON.stringify(row, jsonReplacer) + '\n'
+    );
+    await sink.write(lines.join(''));
+    rows += batch.numRows;
+  }
+  return rows;
+}
+
+async function writeIpc(
+  stream: RecordBatchStream,
+  sink: Sink,
+  writer: RecordBatchFileWriter | RecordBatchStreamWriter
+): Promise<number> {
+  // The writer encodes synchronously into `encoded`, which is flushed to
+  // the sink before the next batch is read, so a slow destination holds
+  // the query back instead of buffering the result. The schema is
+  // written even when there are no batches.
+  const encoded = new EncodedChunks();
+  writer.reset(encoded, stream.schema);
+  let rows = 0;
+  try {
+    for await (const batch of stream) {
+      writer.write(batch);
+      rows += batch.numRows;
+      await encoded.flushTo(sink);
+    }
+  } finally {
+    writer.finish();
+  }
+  await encoded.flushTo(sink);
+  return rows;
+}
+
+/** Holds what an Arrow IPC writer has encoded until it is flushed to a sink. */
+class EncodedChunks extends AsyncByteQueue {
+  private pending: Uint8Array[] = [];
+
+  write(chunk: Uint8Array): void {
+    this.pending.push(chunk);
+  }
+
+  async flushTo(sink: Sink): Promise<void> {
+    const chunks = this.pending;
+    this.pending = [];
+    for (const chunk of chunks) {
+      await sink.write(chunk);
+    }
+  }
+}
+
+/** RFC 4180 quoting; values that would read back as NULL are quoted too. */
+function csvField(value: unknown, delimiter: string, nullText: string): string {
+  if (value === null) return nullText;
+  let text: string;
+  if (typeof value === 'string') {
+    text = value;
+  } else if (value instanceof Uint8Array || typeof value !== 'object') {
+    text = String(jsonReplacer('', value));
+  } else {
+    text = JSON.stringify(value, jsonReplacer);
+  }
+  const quote = text === nullText || text.includes(delimiter) || /["\r\n]/.test(text);
+  return quote ? `"${text.split('"').join('""')}"` : text;
+}
+
+/** BLOBs are written as base64 strings. */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value;
+}
+
+function openSink(destination: string | Writable): Sink {
+  const owned = typeof destination === 'string';
+  const out = owned ? createWriteStream(destination) : destination;
+  let failure: Error | undefined;
+  const onError = (error: Error) => (failure ??= error);
+  out.on('error', onError);
+  const check = () => {
+    if (failure) throw failure;
+  };
+  return {
+    async write(chunk) {
+      check();
+      if (!out.write(chunk)) {
+        await once(out, 'drain');
+      }
+    },
+    async close() {
+      if (owned) {
+        out.end();
+        await finished(out);
+      }
+      check();
+      out.off('error', onError);
+    },
+    abort() {
+      out.off('error', onError);
+      if (owned) {
+        out.on('error', () => {});
+        out.destroy();
+      }
+    },
+  };
+}
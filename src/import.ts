@@ -0,0 +1,336 @@
+// Parsing local CSV / NDJSON files into Arrow record batches for
+// `importFile()`, with per-column type inference and per-line rejection.
+
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import {
+  Bool,
+  DataType,
+  Field,
+  Float64,
+  Int64,
+  RecordBatch,
+  Schema,
+  Struct,
+  TimestampMillisecond,
+  Utf8,
+  makeData,
+  vectorFromArray,
+} from 'apache-arrow';
+import { FlightSQLError } from './errors';
+import { ImportOptions } from './types';
+
+/** One parsed record and the (1-based) line it starts on. */
+interface SourceRecord {
+  line: number;
+  value: Array<string | null> | Record<string, unknown>;
+}
+
+type RejectLine = (line: number, reason: string) => void;
+
+/** Types tried, in order, when inferring a column's type. */
+const INFERRED_TYPES: readonly DataType[] = [
+  new Int64(),
+  new Float64(),
+  new Bool(),
+  new TimestampMillisecond(),
+];
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}(?:[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Streams `filePath` as record batches of up to `batchSize` rows.
+ *
+ * Columns come from `options.schema` when given (matched by position for
+ * CSV, by name for NDJSON, ignoring other keys); otherwise names come
+ * from the CSV header (or `column1`, `column2`, ...) or the NDJSON keys
+ * of the first batch, and types are inferred from the first batch
+ * (`inferSchema: false` reads every column as VARCHAR). Lines that cannot
+ * be parsed or converted, including later NDJSON lines with a key the
+ * first batch did not have, are reported through `onReject` and skipped.
+ */
+export async function* importBatches(
+  filePath: string,
+  options: ImportOptions,
+  onReject: RejectLine
+): AsyncGenerator<RecordBatch> {
+  const batchSize = options.batchSize ?? 10_000;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new FlightSQLError('Import batchSize must be a positive integer');
+  }
+  if (options.format !== 'csv' && options.format !== 'ndjson') {
+    throw new FlightSQLError(`Unsupported import format '${options.format}' (expected csv or ndjson)`);
+  }
+  let fields = options.schema?.fields;
+  const knownKeysOnly = options.format === 'ndjson' && !options.schema;
+  for (const field of fields ?? []) {
+    checkImportType(field.type, field.name);
+  }
+  let header: string[] | undefined;
+  let pending: SourceRecord[] = [];
+  let yielded = false;
+
+  const toBatch = (records: SourceRecord[]): RecordBatch => {
+    fields ??= inferFields(records, header, options);
+    const columns = fields.map(() => [] as unknown[]);
+    for (const record of records) {
+      try {
+        const raw = fieldValues(record, fields, knownKeysOnly);
+        const values = fields.map((field, idx) => coerce(raw[idx], field.type, field.name));
+        for (const [idx, value] of values.entries()) {
+          columns[idx]!.push(value);
+        }
+      } catch (error) {
+        onReject(record.line, (error as Error).message);
+      }
+    }
+    return toRecordBatch(fields, columns);
+  };
+
+  const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+  const records =
+    options.format === 'csv'
+      ? csvRecords(lines, options.delimiter ?? ',')
+      : ndjsonRecords(lines, onReject);
+  for await (const record of records) {
+    if (options.format === 'csv' && (options.header ?? true) && header === undefined) {
+      header = (record.value as Array<string | null>).map((name) => name ?? '');
+      continue;
+    }
+    pending.push(record);
+    if (pending.length >= batchSize) {
+      const batch = toBatch(pending);
+      pending = [];
+      if (batch.numRows > 0) {
+        yielded = true;
+        yield batch;
+      }
+    }
+  }
+  if (pending.length === 0 && yielded) return;
+  const last = toBatch(pending);
+  // An empty batch is still sent when nothing else was, so `create`
+  // modes create the (empty) table.
+  if (last.schema.fields.length > 0 && (last.numRows > 0 || !yielded)) {
+    yield last;
+  }
+}
+
+/**
+ * Splits CSV lines into records (RFC 4180): quoted fields may contain
+ * delimiters, doubled quotes and line breaks. Unquoted empty fields
+ * read as NULL, quoted empty fields as ''.
+ */
+async function* csvRecords(
+  lines: AsyncIterable<string>,
+  delimiter: string
+): AsyncGenerator<SourceRecord> {
+  let lineNo = 0;
+  let start = 0;
+  let fields: Array<string | null> = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  for await (const line of lines) {
+    lineNo++;
+    if (inQuotes) {
+      field += '\n';
+    } else {
+      start = lineNo;
+      if (line === '') continue;
+    }
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (inQuotes) {
+        if (ch === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (ch === '"') {
+          inQuotes = false;
+        } else {
+          field += ch;
+        }
+      } else if (ch === '"' && field === '') {
+        inQuotes = true;
+        quoted = true;
+      } else if (line.startsWith(delimiter, i)) {
+        fields.push(quoted || field !== '' ? field : null);
+        field = '';
+        quoted = false;
+        i += delimiter.length - 1;
+      } else {
+        field += ch;
+      }
+    }
+    if (inQuotes) continue;
+    fields.push(quoted || field !== '' ? field : null);
+    yield { line: start, value: fields };
+    fields = [];
+    field = '';
+    quoted = false;
+  }
+  if (inQuotes) {
+    // An unterminated quote swallows the rest of the file; report it as one record.
+    fields.push(field);
+    yield { line: start, value: fields };
+  }
+}
+
+async function* ndjsonRecords(
+  lines: AsyncIterable<string>,
+  onReject: RejectLine
+): AsyncGenerator<SourceRecord> {
+  let lineNo = 0;
+  for await (const line of lines) {
+    lineNo++;
+    if (line.trim() === '') continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      onReject(lineNo, `Invalid JSON: ${(error as Error).message}`);
+      continue;
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      onReject(lineNo, 'Expected a JSON object');
+      continue;
+    }
+    yield { line: lineNo, value: value as Record<string, unknown> };
+  }
+}
+
+function inferFields(
+  records: SourceRecord[],
+  header: string[] | undefined,
+  options: ImportOptions
+): Field[] {
+  let names: string[];
+  if (options.format === 'csv') {
+    const width = header?.length ?? (records[0]?.value as unknown[] | undefined)?.length ?? 0;
+    names = header ?? Array.from({ length: width }, (_, idx) => `column${idx + 1}`);
+  } else {
+    const keys = new Set<string>();
+    for (const record of records) {
+      for (const key of Object.keys(record.value)) keys.add(key);
+    }
+    names = [...keys];
+  }
+  const samples = names.map(() => [] as unknown[]);
+  for (const record of records) {
+    const values = Array.isArray(record.value)
+      ? record.value.length === names.length
+        ? record.value
+        : []
+      : names.map((name) => (record.value as Record<string, unknown>)[name]);
+    for (const [idx, value] of values.entries()) samples[idx]!.push(value);
+  }
+  return names.map(
+    (name, idx) =>
+      new Field(name, options.inferSchema === false ? new Utf8() : inferType(samples[idx]!), true)
+  );
+}
+
+function inferType(values: unknown[]): DataType {
+  const present = values.filter((value) => value !== null && value !== undefined);
+  if (present.length === 0) return new Utf8();
+  const fits = (value: unknown, type: DataType) => {
+    if (DataType.isTimestamp(type) && !(typeof value === 'string' && ISO_TIMESTAMP.test(value))) {
+      return false;
+    }
+    try {
+      coerce(value, type, '');
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  return INFERRED_TYPES.find((type) => present.every((value) => fits(value, type))) ?? new Utf8();
+}
+
+function fieldValues(record: SourceRecord, fields: Field[], knownKeysOnly: boolean): unknown[] {
+  if (Array.isArray(record.value)) {
+    if (record.value.length !== fields.length) {
+      throw new Error(`Expected ${fields.length} fields but found ${record.value.length}`);
+    }
+    return record.value;
+  }
+  const object = record.value;
+  if (knownKeysOnly) {
+    const unknown = Object.keys(object).find((key) => !fields.some((field) => field.name === key));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown key "${unknown}": columns are taken from the keys of the first batch`);
+    }
+  }
+  return fields.map((field) => object[field.name]);
+}
+
+function checkImportType(type: DataType, name: string): void {
+  const supported =
+    DataType.isUtf8(type) ||
+    DataType.isLargeUtf8(type) ||
+    DataType.isBool(type) ||
+    DataType.isInt(type) ||
+    DataType.isFloat(type) ||
+    DataType.isTimestamp(type) ||
+    DataType.isDate(type);
+  if (!supported) {
+    throw new FlightSQLError(`Unsupported column type for import: ${name} ${type}`);
+  }
+}
+
+/** Converts a parsed CSV string or JSON value to `type`, throwing on mismatch. */
+function coerce(value: unknown, type: DataType, column: string): unknown {
+  if (value === null || value === undefined) return null;
+  const invalid = () =>
+    new Error(`Column "${column}": cannot convert ${JSON.stringify(value)} to ${type}`);
+  if (DataType.isUtf8(type) || DataType.isLargeUtf8(type)) {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  if (DataType.isBool(type)) {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).toLowerCase();
+    if (text === 'true' || text === 'false') return text === 'true';
+    throw invalid();
+  }
+  if (DataType.isInt(type)) {
+    const text = typeof value === 'number' || typeof value === 'string' ? String(value).trim() : '';
+    if (!/^[+-]?\d+$/.test(text)) throw invalid();
+    const integer = BigInt(text);
+    const limit = 1n << BigInt(type.isSigned ? type.bitWidth - 1 : type.bitWidth);
+    if (type.isSigned ? integer < -limit || integer >= limit : integer >= limit || integer < 0n) {
+      throw invalid();
+    }
+    return type.bitWidth === 64 ? integer : Number(integer);
+  }
+  if (DataType.isFloat(type)) {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (typeof value === 'boolean' || String(value).trim() === '' || Number.isNaN(number)) {
+      throw invalid();
+    }
+    return number;
+  }
+  // Timestamps and dates: ISO strings or epoch milliseconds.
+  const ms = typeof value === 'number' ? value : parseTimestamp(String(value));
+  if (Number.isNaN(ms)) throw invalid();
+  return new Date(ms);
+}
+
+/**
+ * `Date.parse` for import values. ISO timestamps without a zone are read
+ * as UTC, as ISO dates already are, rather than in the local time zone.
+ */
+function parseTimestamp(text: string): number {
+  const iso = ISO_TIMESTAMP.exec(text);
+  if (!iso?.[1] || iso[2]) return Date.parse(text);
+  return Date.parse(`${text.slice(0, 10)}T${iso[1]}Z`);
+}
+
+function toRecordBatch(fields: Field[], columns: unknown[][]): RecordBatch {
+  const schema = new Schema(fields);
+  const children = fields.map((field, idx) => vectorFromArray(columns[idx]!, field.type).data[0]!);
+  const length = columns[0]?.length ?? 0;
+  return new RecordBatch(
+    schema,
+    makeData({ type: new Struct(fields), length, nullCount: 0, children })
+  );
+}
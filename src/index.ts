@@ -1,4 +1,14 @@
 export { resolveDriverLib, driverPlatform, cachedDriverPath, driverVersion } from './driver-lib';
 export { FlightSQLClient } from './flightsql-client';
+export { FlightSQLPool, PooledClient } from './pool';
+export { tableToObjects } from './rows';
+export { parseConnectionUri, configFromEnv, loadProfile } from './config';
+export { diffMetadata } from './metadata';
+export { SqlInfo } from './sql-info';
+export { Instrumentation } from './instrumentation';
+export { attachLogger } from './events';
+export { MemoryResultStore } from './result-cache';
+export { sql, SqlFragment } from './sql';
+export type { SqlTag, SqlValue } from './sql';
 export * from './types';
 export * from './errors';
\ No newline at end of file
@@ -0,0 +1,193 @@
+// Typed access to GizmoSQL's session instrumentation tables (sessions,
+// statements and their executions), located through the
+// instrumentation SqlInfo, plus killing sessions and cancelling
+// running statements.
+
+import { FlightSQLError } from './errors';
+import { SqlInfo } from './sql-info';
+import {
+  ObjectRowsOptions,
+  QueryParameter,
+  ResultRow,
+  SessionInfo,
+  SqlInfoValue,
+  StatementExecution,
+  StatementHistoryOptions,
+} from './types';
+
+/** The client methods the instrumentation API runs on. */
+export interface InstrumentationClient {
+  execute(query: string, params: readonly QueryParameter[], options: ObjectRowsOptions): Promise<ResultRow[]>;
+  getSqlInfo(infoIds?: number[]): Promise<Map<number, SqlInfoValue>>;
+}
+
+// Session and execution state is live, so it never comes from the result cache.
+const ROW_OPTIONS: ObjectRowsOptions = { rowMode: 'objects', bigint: 'number', timestamp: 'Date', cache: false };
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+const EXECUTION_COLUMNS = `
+  e.execution_id, e.statement_id, s.session_id, ses.username, s.sql_text,
+  e.execution_start_time, e.execution_end_time, e.status, e.rows_fetched,
+  e.error_message, e.duration_ms`;
+
+/**
+ * Queries the instrumentation database a GizmoSQL server keeps when
+ * started with instrumentation enabled. Its catalog and schema are
+ * looked up once through `getSqlInfo()`; every method rejects with a
+ * `FlightSQLError` when the server has instrumentation disabled.
+ */
+export class Instrumentation {
+  private location: Promise<string> | null = null;
+
+  constructor(private readonly client: InstrumentationClient) {}
+
+  /** Sessions that are currently open, oldest first. */
+  async listSessions(): Promise<SessionInfo[]> {
+    const rows = await this.query(
+      (from) => `SELECT session_id, instance_id, username, role, peer, start_time, stop_time, status
+        FROM ${from}.sessions WHERE status = 'active' ORDER BY start_time`
+    );
+    return rows.map((row) => toSession(row));
+  }
+
+  /** Statement executions still in progress, oldest first. */
+  async listRunningStatements(): Promise<StatementExecution[]> {
+    const rows = await this.query(
+      (from) => `SELECT ${EXECUTION_COLUMNS} ${executionsFrom(from)}
+        WHERE e.status = 'executing' ORDER BY e.execution_start_time`
+    );
+    return rows.map((row) => toExecution(row));
+  }
+
+  /**
+   * Past and running statement executions, newest first: those started
+   * at or after `since` by `user`, at most `limit` (default 100).
+   */
+  async getStatementHistory(options: StatementHistoryOptions = {}): Promise<StatementExecution[]> {
+    const filters: string[] = [];
+    const params: QueryParameter[] = [];
+    if (options.since !== undefined) {
+      filters.push('e.execution_start_time >= ?');
+      params.push(options.since);
+    }
+    if (options.user !== undefined) {
+      filters.push('ses.username = ?');
+      params.push(options.user);
+    }
+    const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new FlightSQLError('Statement history limit must be a positive integer');
+    }
+    params.push(limit);
+    const where = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+    const rows = await this.query(
+      (from) => `SELECT ${EXECUTION_COLUMNS} ${executionsFrom(from)}
+        ${where} ORDER BY e.execution_start_time DESC LIMIT ?`,
+      params
+    );
+    return rows.map((row) => toExecution(row));
+  }
+
+  /** Ends another session on the server (requires the admin role). */
+  async killSession(sessionId: string): Promise<void> {
+    await this.command(`KILL SESSION ${quoteLiteral(sessionId)}`);
+  }
+
+  /** Cancels a running statement by its id (requires the admin role). */
+  async cancelStatement(statementId: string): Promise<void> {
+    await this.command(`KILL STATEMENT ${quoteLiteral(statementId)}`);
+  }
+
+  private async query(sql: (from: string) => string, params: QueryParameter[] = []): Promise<ResultRow[]> {
+    const from = await this.resolveLocation();
+    return this.client.execute(sql(from), params, ROW_OPTIONS);
+  }
+
+  private async command(sql: string): Promise<void> {
+    await this.resolveLocation();
+    await this.client.execute(sql, [], { ...ROW_OPTIONS, retry: false });
+  }
+
+  /** `"catalog"."schema"` of the instrumentation tables; retried after a failure. */
+  private resolveLocation(): Promise<string> {
+    this.location ??= this.lookupLocation().catch((error: unknown) => {
+      this.location = null;
+      throw error;
+    });
+    return this.location;
+  }
+
+  private async lookupLocation(): Promise<string> {
+    const info = await this.client.getSqlInfo([
+      SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED,
+      SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG,
+      SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA,
+    ]);
+    const enabled = info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED);
+    if (enabled !== true && enabled !== 1 && enabled !== 'true') {
+      throw new FlightSQLError('Instrumentation is not enabled on this GizmoSQL server');
+    }
+    const catalog = info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG);
+    const schema = info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA);
+    if (typeof catalog !== 'string' || typeof schema !== 'string') {
+      throw new FlightSQLError('GizmoSQL server did not report the instrumentation catalog and schema');
+    }
+    return `${quoteIdentifier(catalog)}.${quoteIdentifier(schema)}`;
+  }
+}
+
+function executionsFrom(from: string): string {
+  return `FROM ${from}.sql_executions e
+    JOIN ${from}.sql_statements s ON s.statement_id = e.statement_id
+    JOIN ${from}.sessions ses ON ses.session_id = s.session_id`;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.split('"').join('""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.split("'").join("''")}'`;
+}
+
+function toSession(row: ResultRow): SessionInfo {
+  return {
+    sessionId: String(row.session_id),
+    instanceId: stringOrNull(row.instance_id),
+    username: stringOrNull(row.username),
+    role: stringOrNull(row.role),
+    peer: stringOrNull(row.peer),
+    startTime: dateOrNull(row.start_time),
+    stopTime: dateOrNull(row.stop_time),
+    status: String(row.status),
+  };
+}
+
+function toExecution(row: ResultRow): StatementExecution {
+  return {
+    executionId: String(row.execution_id),
+    statementId: String(row.statement_id),
+    sessionId: String(row.session_id),
+    username: stringOrNull(row.username),
+    sqlText: String(row.sql_text ?? ''),
+    startTime: dateOrNull(row.execution_start_time),
+    endTime: dateOrNull(row.execution_end_time),
+    status: String(row.status),
+    rowsFetched: numberOrNull(row.rows_fetched),
+    errorMessage: stringOrNull(row.error_message),
+    durationMs: numberOrNull(row.duration_ms),
+  };
+}
+
+function stringOrNull(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function dateOrNull(value: unknown): Date | null {
+  return value instanceof Date ? value : null;
+}
@@ -0,0 +1,273 @@
+// Parsing of the ADBC GetObjects hierarchy (catalogs → schemas → tables
+// → columns/constraints) into typed metadata, database snapshots built
+// from it, and diffs between two snapshots.
+
+import {
+  ColumnChange,
+  ColumnMetadata,
+  ComparedColumnField,
+  ConstraintMetadata,
+  DatabaseMetadata,
+  DatabaseMetadataOptions,
+  MetadataDiff,
+  TableDiff,
+  TableMetadata,
+  TableRef,
+  TableSnapshot,
+} from './types';
+
+/** A table of a GetObjects result with the names of its catalog and schema. */
+export interface ObjectTable {
+  catalogName: string;
+  schemaName: string;
+  table: any;
+}
+
+const COMPARED_COLUMN_FIELDS: readonly ComparedColumnField[] = [
+  'typeName',
+  'nullable',
+  'defaultValue',
+  'precision',
+  'scale',
+];
+
+/** Normalizes Arrow nested values (Vectors/StructRows) to plain JS arrays/objects. */
+export function materialize(value: any): any[] {
+  if (value == null) return [];
+  if (Array.isArray(value)) return value.map((v) => normalizeRow(v));
+  if (typeof value.toArray === 'function') {
+    return Array.from(value.toArray()).map((v) => normalizeRow(v));
+  }
+  return [];
+}
+
+function normalizeRow(row: any): any {
+  return row && typeof row.toJSON === 'function' ? row.toJSON() : row;
+}
+
+/** Flattens GetObjects rows into their tables, with catalog and schema names. */
+export function* tablesOf(rows: any[]): Generator<ObjectTable> {
+  for (const row of rows) {
+    for (const schema of materialize(row.catalog_db_schemas)) {
+      for (const table of materialize(schema.db_schema_tables)) {
+        yield { catalogName: row.catalog_name, schemaName: schema.db_schema_name, table };
+      }
+    }
+  }
+}
+
+/** A table's columns in ordinal order; XDBC fields the driver leaves unset become null. */
+export function columnsOf({ catalogName, schemaName, table }: ObjectTable): ColumnMetadata[] {
+  const columns = materialize(table.table_columns).map((column): ColumnMetadata => {
+    const nullable =
+      column.xdbc_nullable === 0 || column.xdbc_is_nullable === 'NO'
+        ? false
+        : column.xdbc_nullable === 1 || column.xdbc_is_nullable === 'YES'
+          ? true
+          : null;
+    return {
+      catalogName,
+      schemaName,
+      tableName: table.table_name,
+      columnName: column.column_name,
+      ordinalPosition: Number(column.ordinal_position),
+      typeName: column.xdbc_type_name ?? null,
+      nullable,
+      defaultValue: column.xdbc_column_def ?? null,
+      remarks: column.remarks ?? null,
+      precision: column.xdbc_column_size ?? null,
+      scale: column.xdbc_decimal_digits ?? null,
+    };
+  });
+  columns.sort((a, b) => a.ordinalPosition - b.ordinalPosition);
+  return columns;
+}
+
+/** Every constraint a table declares (PRIMARY KEY, FOREIGN KEY, UNIQUE, CHECK). */
+export function constraintsOf({ catalogName, schemaName, table }: ObjectTable): ConstraintMetadata[] {
+  return materialize(table.table_constraints).map((constraint) => ({
+    catalogName,
+    schemaName,
+    tableName: table.table_name,
+    constraintName: constraint.constraint_name ?? null,
+    constraintType: constraint.constraint_type,
+    columnNames: materialize(constraint.constraint_column_names).map(String),
+    references: materialize(constraint.constraint_column_usage).map((ref) => ({
+      catalogName: ref.fk_catalog ?? ref.catalog ?? '',
+      schemaName: ref.fk_db_schema ?? ref.db_schema ?? '',
+      tableName: ref.fk_table ?? ref.table ?? '',
+      columnName: ref.fk_column_name ?? ref.column ?? '',
+    })),
+  }));
+}
+
+/** The columns of a table's PRIMARY KEY constraint, in key order. */
+export function primaryKeysOf(entry: ObjectTable): TableMetadata['primaryKeys'] {
+  return constraintsOf(entry)
+    .filter((constraint) => constraint.constraintType === 'PRIMARY KEY')
+    .flatMap(({ catalogName, schemaName, tableName, columnNames }) =>
+      columnNames.map((columnName, idx) => ({
+        catalogName,
+        schemaName,
+        tableName,
+        columnName,
+        keySequence: idx + 1,
+      }))
+    );
+}
+
+/** The column pairs of the FOREIGN KEY constraints a table declares. */
+export function foreignKeysOf(entry: ObjectTable): TableMetadata['foreignKeys'] {
+  return constraintsOf(entry)
+    .filter((constraint) => constraint.constraintType === 'FOREIGN KEY')
+    .flatMap((constraint) =>
+      constraint.references.map((ref, idx) => ({
+        pkCatalogName: ref.catalogName,
+        pkSchemaName: ref.schemaName,
+        pkTableName: ref.tableName,
+        pkColumnName: ref.columnName,
+        fkCatalogName: constraint.catalogName,
+        fkSchemaName: constraint.schemaName,
+        fkTableName: constraint.tableName,
+        fkColumnName: constraint.columnNames[idx] ?? '',
+      }))
+    );
+}
+
+/** Whether a foreign key references `table`. */
+export function referencesTable(key: TableMetadata['foreignKeys'][number], table: TableRef): boolean {
+  return (
+    key.pkCatalogName === table.catalog &&
+    key.pkSchemaName === table.schema &&
+    key.pkTableName === table.tableName
+  );
+}
+
+/** Whether a foreign key is declared by `table`. */
+export function declaredByTable(key: TableMetadata['foreignKeys'][number], table: TableRef): boolean {
+  return (
+    key.fkCatalogName === table.catalog &&
+    key.fkSchemaName === table.schema &&
+    key.fkTableName === table.tableName
+  );
+}
+
+/** Builds a snapshot from GetObjects rows fetched at depth All (or Tables without details). */
+export function buildDatabaseMetadata(rows: any[], options: DatabaseMetadataOptions = {}): DatabaseMetadata {
+  const snapshot: DatabaseMetadata = { catalogs: [], schemas: [], tables: [] };
+  for (const row of rows) {
+    if (row.catalog_name == null) continue;
+    snapshot.catalogs.push(row.catalog_name);
+    for (const schema of materialize(row.catalog_db_schemas)) {
+      snapshot.schemas.push({ catalog: row.catalog_name, schema: schema.db_schema_name });
+    }
+  }
+  for (const entry of tablesOf(rows)) {
+    const table: TableSnapshot = {
+      catalog: entry.catalogName,
+      schema: entry.schemaName,
+      tableName: entry.table.table_name,
+      tableType: entry.table.table_type,
+    };
+    if (options.includeColumns) {
+      table.columns = columnsOf(entry);
+    }
+    if (options.includeConstraints) {
+      table.primaryKeys = primaryKeysOf(entry);
+      table.foreignKeys = foreignKeysOf(entry);
+    }
+    snapshot.tables.push(table);
+  }
+  return snapshot;
+}
+
+/**
+ * Compares two snapshots (e.g. from different environments, or before
+ * and after a deployment). Columns and keys are compared only where both
+ * snapshots include them.
+ */
+export function diffMetadata(before: DatabaseMetadata, after: DatabaseMetadata): MetadataDiff {
+  const beforeTables = new Map(before.tables.map((table) => [tableKey(table), table]));
+  const afterTables = new Map(after.tables.map((table) => [tableKey(table), table]));
+  const diff: MetadataDiff = { addedTables: [], removedTables: [], changedTables: [] };
+  for (const [key, table] of afterTables) {
+    if (!beforeTables.has(key)) diff.addedTables.push(tableRef(table));
+  }
+  for (const [key, table] of beforeTables) {
+    const next = afterTables.get(key);
+    if (!next) {
+      diff.removedTables.push(tableRef(table));
+      continue;
+    }
+    const changes = diffTable(table, next);
+    if (changes) diff.changedTables.push(changes);
+  }
+  return diff;
+}
+
+function diffTable(before: TableSnapshot, after: TableSnapshot): TableDiff | null {
+  const diff: TableDiff = {
+    ...tableRef(after),
+    addedColumns: [],
+    removedColumns: [],
+    changedColumns: [],
+    addedForeignKeys: [],
+    removedForeignKeys: [],
+  };
+  let changed = false;
+  if (before.tableType !== after.tableType) {
+    diff.tableType = { before: before.tableType, after: after.tableType };
+    changed = true;
+  }
+  if (before.columns && after.columns) {
+    const old = new Map(before.columns.map((column) => [column.columnName, column]));
+    const current = new Map(after.columns.map((column) => [column.columnName, column]));
+    for (const name of current.keys()) {
+      if (!old.has(name)) diff.addedColumns.push(name);
+    }
+    for (const [name, column] of old) {
+      const next = current.get(name);
+      if (!next) {
+        diff.removedColumns.push(name);
+        continue;
+      }
+      const changes: ColumnChange['changes'] = {};
+      for (const field of COMPARED_COLUMN_FIELDS) {
+        if (column[field] !== next[field]) {
+          changes[field] = { before: column[field], after: next[field] };
+        }
+      }
+      if (Object.keys(changes).length > 0) diff.changedColumns.push({ columnName: name, changes });
+    }
+    changed ||= diff.addedColumns.length + diff.removedColumns.length + diff.changedColumns.length > 0;
+  }
+  if (before.primaryKeys && after.primaryKeys) {
+    const old = before.primaryKeys.map((key) => key.columnName);
+    const current = after.primaryKeys.map((key) => key.columnName);
+    if (old.join('\u0000') !== current.join('\u0000')) {
+      diff.primaryKey = { before: old, after: current };
+      changed = true;
+    }
+  }
+  if (before.foreignKeys && after.foreignKeys) {
+    const old = new Set(before.foreignKeys.map((key) => describeForeignKey(key)));
+    const current = new Set(after.foreignKeys.map((key) => describeForeignKey(key)));
+    diff.addedForeignKeys = [...current].filter((key) => !old.has(key));
+    diff.removedForeignKeys = [...old].filter((key) => !current.has(key));
+    changed ||= diff.addedForeignKeys.length + diff.removedForeignKeys.length > 0;
+  }
+  return changed ? diff : null;
+}
+
+function tableRef(table: TableSnapshot): TableRef {
+  return { catalog: table.catalog, schema: table.schema, tableName: table.tableName };
+}
+
+function tableKey(table: TableSnapshot): string {
+  return JSON.stringify([table.catalog, table.schema, table.tableName]);
+}
+
+/** e.g. `customer_id -> memory.main.customers(id)` */
+function describeForeignKey(key: TableMetadata['foreignKeys'][number]): string {
+  return `${key.fkColumnName} -> ${key.pkCatalogName}.${key.pkSchemaName}.${key.pkTableName}(${key.pkColumnName})`;
+}
@@ -0,0 +1,179 @@
+// GizmoSQL OAuth/SSO: discovery of the server's OAuth HTTP endpoint and
+// the browser login flow (`authType: 'oauth'`) that yields the JWT the
+// client then sends as its Bearer token.
+
+import * as http from 'node:http';
+import * as https from 'node:https';
+import { AuthenticationError } from './errors';
+import { FlightClientConfig } from './types';
+import { tlsMaterial } from './connection';
+
+/** Default port of the GizmoSQL OAuth HTTP server. */
+export const DEFAULT_OAUTH_PORT = 31339;
+
+interface JsonResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Probes the server's OAuth endpoint (HTTPS first, then HTTP) and
+ * returns its base URL, or null if the server does not expose OAuth.
+ */
+export async function discoverOAuthUrl(config: FlightClientConfig): Promise<string | null> {
+  return (await findOAuthEndpoint(config))?.base ?? null;
+}
+
+/**
+ * Runs the OAuth login flow: discovery (unless `oauth.url` is set),
+ * `GET /oauth/initiate`, handing `auth_url` to `oauth.openBrowser`
+ * (default: print it to stderr), then polling
+ * `GET /oauth/token/{session_uuid}` until the server issues the token.
+ * Rejects with AuthenticationError on failure, timeout or abort.
+ */
+export async function oauthLogin(config: FlightClientConfig): Promise<string> {
+  const options = config.oauth ?? {};
+  const timeoutMs = options.timeoutMs ?? 300_000;
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const deadline = Date.now() + timeoutMs;
+  const checkCancelled = () => {
+    if (options.signal?.aborted) {
+      throw new AuthenticationError('OAuth login was cancelled');
+    }
+    if (Date.now() >= deadline) {
+      throw new AuthenticationError(`OAuth login timed out after ${timeoutMs}ms`);
+    }
+  };
+
+  checkCancelled();
+  const initiateAt = (base: string) =>
+    getJson(`${base}/oauth/initiate`, config, options.signal).catch((error: Error) => {
+      checkCancelled();
+      throw new AuthenticationError(`OAuth initiate failed: ${error.message}`);
+    });
+  // Discovery already initiates a session, so its response is reused.
+  const endpoint = options.url
+    ? { base: options.url, initiate: await initiateAt(options.url) }
+    : await findOAuthEndpoint(config, options.signal);
+  checkCancelled();
+  if (!endpoint) {
+    throw new AuthenticationError(
+      `OAuth is not available on ${config.host}:${config.oauthPort ?? DEFAULT_OAUTH_PORT}`
+    );
+  }
+  const { base, initiate } = endpoint;
+  const { session_uuid: session, auth_url: authUrl } = initiate.body ?? {};
+  if (initiate.status !== 200 || typeof session !== 'string' || typeof authUrl !== 'string') {
+    throw new AuthenticationError(`OAuth initiate failed (HTTP ${initiate.status})`);
+  }
+  await (options.openBrowser ?? printAuthUrl)(authUrl);
+
+  for (;;) {
+    checkCancelled();
+    const poll = await getJson(
+      `${base}/oauth/token/${encodeURIComponent(session)}`,
+      config,
+      options.signal
+    ).catch(() => null); // a failed or aborted request just waits for the next round
+    if (poll) {
+      const token = issuedToken(poll);
+      if (token) return token;
+      if (poll.status !== 202 && poll.body?.status !== 'pending') {
+        throw new AuthenticationError(`OAuth login failed: ${pollError(poll)}`);
+      }
+    }
+    await delay(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())), options.signal);
+  }
+}
+
+function issuedToken(poll: JsonResponse): string | undefined {
+  if (poll.status !== 200 || !poll.body) return undefined;
+  const { token, identity_token: identityToken, id_token: idToken } = poll.body;
+  const value = token ?? identityToken ?? idToken;
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function pollError(poll: JsonResponse): string {
+  return String(poll.body?.error ?? poll.body?.message ?? poll.body?.status ?? `HTTP ${poll.status}`);
+}
+
+function printAuthUrl(authUrl: string): void {
+  process.stderr.write(`Open this URL in your browser to log in:\n  ${authUrl}\n`);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * GET `url` and parse the body as JSON (null if it is not JSON). HTTPS
+ * requests use the config's CA, client certificate and server name;
+ * aborting `signal` aborts the request.
+ */
+function getJson(url: string, config: FlightClientConfig, signal?: AbortSignal): Promise<JsonResponse> {
+  return new Promise((resolve, reject) => {
+    const secure = url.startsWith('https');
+    const lib = secure ? https : http;
+    const req = lib.get(
+      url,
+      secure ? { ...tlsRequestOptions(config), timeout: 5000, signal } : { timeout: 5000, signal },
+      (res) => {
+        let body = '';
+        res.on('data', (chunk) => (body += chunk));
+        res.on('end', () => {
+          let parsed: unknown = null;
+          try {
+            parsed = JSON.parse(body);
+          } catch {
+            // Not JSON; callers treat a null body as a failed response.
+          }
+          resolve({ status: res.statusCode ?? 0, body: parsed });
+        });
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error(`Request to ${url} timed out`)));
+    req.on('error', reject);
+  });
+}
+
+function tlsRequestOptions(config: FlightClientConfig): https.RequestOptions {
+  const tls = tlsMaterial(config);
+  return {
+    rejectUnauthorized: config.tlsSkipVerify !== true,
+    ca: tls.rootCerts,
+    cert: tls.clientCert,
+    key: tls.clientKey,
+    servername: config.tlsServerNameOverride,
+  };
+}
+
+/**
+ * Probes `GET {base}/oauth/initiate` over HTTPS, then HTTP, and returns
+ * the first base URL that answers with an `auth_url`, with its response.
+ */
+async function findOAuthEndpoint(
+  config: FlightClientConfig,
+  signal?: AbortSignal
+): Promise<{ base: string; initiate: JsonResponse } | null> {
+  const port = config.oauthPort ?? DEFAULT_OAUTH_PORT;
+  for (const scheme of ['https', 'http'] as const) {
+    const base = `${scheme}://${config.host}:${port}`;
+    try {
+      const initiate = await getJson(`${base}/oauth/initiate`, config, signal);
+      if (initiate.status === 200 && typeof initiate.body?.auth_url === 'string') {
+        return { base, initiate };
+      }
+    } catch {
+      // Not reachable over this scheme.
+    }
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+// Conversion of positional query parameters (`?` / `$1` placeholders)
+// into the one-row Arrow parameter batch that ADBC statements bind.
+
+import {
+  Binary,
+  Bool,
+  DataType,
+  Float64,
+  Int64,
+  Null,
+  Schema,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  Vector,
+  vectorFromArray,
+} from 'apache-arrow';
+import { FlightSQLError } from './errors';
+import { QueryParameter } from './types';
+
+/**
+ * Builds the Arrow parameter table for a statement: one row, one column
+ * per placeholder (`p1`, `p2`, ...) in positional order. Integral
+ * numbers bind as Int64, other numbers as Float64, and Dates as
+ * millisecond timestamps.
+ */
+export function toParameterTable(params: readonly QueryParameter[]): Table {
+  const columns: Record<string, Vector> = {};
+  for (const [idx, value] of params.entries()) {
+    const type = parameterType(value, idx);
+    const converted = typeof value === 'number' && type instanceof Int64 ? BigInt(value) : value;
+    columns[`p${idx + 1}`] = vectorFromArray([converted], type);
+  }
+  return new Table(columns);
+}
+
+/**
+ * Checks caller-supplied parameters against a prepared statement's
+ * parameter schema before anything is sent to the server.
+ */
+export function checkParameters(schema: Schema | undefined, params: readonly QueryParameter[]): void {
+  if (!schema) return;
+  const expected = schema.fields.length;
+  if (params.length !== expected) {
+    throw new FlightSQLError(
+      `Prepared statement expects ${expected} parameter(s) but ${params.length} were supplied`
+    );
+  }
+}
+
+function parameterType(value: QueryParameter, idx: number): DataType {
+  if (value === null) return new Null();
+  switch (typeof value) {
+    case 'number':
+      return Number.isSafeInteger(value) ? new Int64() : new Float64();
+    case 'bigint':
+      return new Int64();
+    case 'string':
+      return new Utf8();
+    case 'boolean':
+      return new Bool();
+  }
+  if (value instanceof Date) return new TimestampMillisecond();
+  if (value instanceof Uint8Array) return new Binary();
+  const kind = value === undefined ? 'undefined' : (value as object).constructor?.name ?? typeof value;
+  throw new FlightSQLError(`Unsupported type for query parameter $${idx + 1}: ${kind}`);
+}
@@ -0,0 +1,415 @@
+import { performance } from 'node:perf_hooks';
+import { Table } from 'apache-arrow';
+import { AdbcConnection, AdbcDatabase } from '@apache-arrow/adbc-driver-manager';
+import { FlightSQLClient, SharedClientState } from './flightsql-client';
+import {
+  CacheInvalidation,
+  ClientEventListener,
+  ClientEventName,
+  FlightSQLPoolConfig,
+  ObjectRowsOptions,
+  QueryOptions,
+  QueryParameter,
+  ResultRow,
+} from './types';
+import { AuthenticationError, ConnectionError, FlightError } from './errors';
+import { validateConfig, toClientError } from './utils';
+import { openConnection, openDatabase } from './connection';
+import { AuthSession } from './auth';
+import { ClientEvents } from './events';
+import { QueryTracer } from './tracing';
+import { ResultCache } from './result-cache';
+import { SqlFragment } from './sql';
+
+/**
+ * A FlightSQLClient bound to one pooled connection (see
+ * `FlightSQLPool.acquire()`). `close()` returns the connection to the
+ * pool instead of closing it — open prepared statements are released and
+ * any uncommitted transaction is rolled back — and the client cannot be
+ * used afterwards. A connection dropped after a transient failure is
+ * discarded and replaced from the pool on the next call.
+ */
+export class PooledClient extends FlightSQLClient {
+  private released = false;
+
+  constructor(
+    config: FlightSQLPoolConfig,
+    conn: AdbcConnection,
+    private readonly pool: FlightSQLPool
+  ) {
+    super(config, pool.sharedState);
+    this.conn = conn;
+  }
+
+  protected async openConn(): Promise<void> {
+    if (this.released) {
+      throw new ConnectionError('Pooled client was released back to its pool');
+    }
+    this.conn ??= await this.pool.replaceConnection();
+  }
+
+  async close(): Promise<void> {
+    await this.pool.release(this);
+  }
+
+  /**
+   * Resets the session and hands back the connection (null once
+   * released).
+   * @internal
+   */
+  async detach(): Promise<AdbcConnection | null> {
+    if (this.released) return null;
+    this.released = true;
+    await this.resetSession();
+    const conn = this.conn;
+    this.conn = null;
+    return conn;
+  }
+
+  protected async dropConnection(): Promise<void> {
+    const conn = this.conn;
+    this.conn = null;
+    if (conn) {
+      await this.pool.discard(conn);
+    }
+  }
+}
+
+interface IdleConnection {
+  conn: AdbcConnection;
+  timer?: NodeJS.Timeout;
+}
+
+interface Waiter {
+  resolve: (conn: AdbcConnection) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * A pool of GizmoSQL connections for concurrent workloads.
+ *
+ * All pooled connections share one `AdbcDatabase`, so the native driver
+ * is loaded once; when a provider or OAuth token is renewed a new
+ * database is opened with it and the old one is closed along with its
+ * last connection. Idle connections are health-checked before they are
+ * handed out, connections idle for longer than `idleTimeoutMs` are
+ * closed down to `min`, and `acquire()` waits up to `acquireTimeoutMs`
+ * when `max` connections are in use. Constructing a pool opens nothing:
+ * the first `acquire()` opens its connection and starts topping the
+ * pool up to `min` in the background.
+ */
+export class FlightSQLPool {
+  private readonly config: FlightSQLPoolConfig;
+  private readonly min: number;
+  private readonly max: number;
+  private readonly idleTimeoutMs: number;
+  private readonly acquireTimeoutMs: number;
+  private readonly auth: AuthSession;
+  private readonly events: ClientEvents;
+  private readonly resultCache: ResultCache | undefined;
+  private db: AdbcDatabase | null = null;
+  /** The token `db` was opened with. */
+  private dbToken: string | undefined;
+  /** The database each open connection belongs to. */
+  private databases = new Map<AdbcConnection, AdbcDatabase>();
+  private idle: IdleConnection[] = [];
+  private waiters: Waiter[] = [];
+  private borrowed = new Set<PooledClient>();
+  /** Connections open or being opened (idle + borrowed + in flight). */
+  private size = 0;
+  private closed = false;
+  private drained: (() => void) | null = null;
+
+  constructor(config: FlightSQLPoolConfig) {
+    validateConfig(config);
+    this.min = config.min ?? 0;
+    this.max = config.max ?? 10;
+    this.idleTimeoutMs = config.idleTimeoutMs ?? 30000;
+    this.acquireTimeoutMs = config.acquireTimeoutMs ?? 30000;
+    if (!Number.isInteger(this.max) || this.max < 1) {
+      throw new FlightError('Pool max must be a positive integer');
+    }
+    if (!Number.isInteger(this.min) || this.min < 0 || this.min > this.max) {
+      throw new FlightError('Pool min must be an integer between 0 and max');
+    }
+    this.config = { plaintext: false, ...config };
+    this.auth = new AuthSession(this.config);
+    this.events = new ClientEvents(config.redactSql, QueryTracer.create(this.config));
+    this.resultCache = ResultCache.create(this.config);
+  }
+
+  /** Current pool occupancy. */
+  get stats(): { size: number; idle: number; borrowed: number; waiting: number } {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      borrowed: this.borrowed.size,
+      waiting: this.waiters.length,
+    };
+  }
+
+  /**
+   * Subscribes to the events of the pool's connections and of every
+   * client it hands out (see `FlightSQLClient.on()`).
+   */
+  on<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  off<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Borrows a connection as a `PooledClient`. Release it with
+   * `release(client)` or `client.close()`.
+   */
+  async acquire(): Promise<PooledClient> {
+    const conn = await this.acquireConnection();
+    const client = new PooledClient(this.config, conn, this);
+    this.borrowed.add(client);
+    this.warm();
+    return client;
+  }
+
+  /** Returns a borrowed client's connection to the pool. */
+  async release(client: PooledClient): Promise<void> {
+    if (!this.borrowed.delete(client)) return;
+    const conn = await client.detach();
+    if (conn) {
+      await this.checkIn(conn);
+    }
+    if (this.closed && this.borrowed.size === 0) {
+      this.drained?.();
+    }
+  }
+
+  /** Runs one query on a pooled connection (see `FlightSQLClient.execute()`). */
+  async execute(query: string | SqlFragment, options: ObjectRowsOptions): Promise<ResultRow[]>;
+  async execute(
+    query: string,
+    params: readonly QueryParameter[],
+    options: ObjectRowsOptions
+  ): Promise<ResultRow[]>;
+  async execute(query: string | SqlFragment, options?: QueryOptions): Promise<Table>;
+  async execute(
+    query: string,
+    params?: readonly QueryParameter[],
+    options?: QueryOptions
+  ): Promise<Table>;
+  async execute(
+    query: string | SqlFragment,
+    paramsOrOptions?: readonly QueryParameter[] | QueryOptions,
+    options?: QueryOptions
+  ): Promise<Table | ResultRow[]> {
+    const client = await this.acquire();
+    try {
+      if (query instanceof SqlFragment) {
+        return await client.execute(query, paramsOrOptions as QueryOptions);
+      }
+      const params = Array.isArray(paramsOrOptions) ? paramsOrOptions : [];
+      const queryOptions = Array.isArray(paramsOrOptions) ? options : paramsOrOptions;
+      return await client.execute(query, params, queryOptions as QueryOptions);
+    } finally {
+      await this.release(client);
+    }
+  }
+
+  /** Removes cached results shared by the pool's clients (see `FlightSQLClient.invalidateCache()`). */
+  async invalidateCache(selector?: CacheInvalidation): Promise<number> {
+    return this.resultCache ? this.resultCache.invalidate(selector) : 0;
+  }
+
+  /**
+   * Drains the pool: pending `acquire()` calls are rejected, idle
+   * connections are closed, and once every borrowed client has been
+   * released the shared database is closed.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new ConnectionError('Pool is closed'));
+    }
+    await Promise.all(this.idle.splice(0).map((entry) => this.destroy(entry)));
+    if (this.borrowed.size > 0) {
+      await new Promise<void>((resolve) => (this.drained = resolve));
+    }
+    const db = this.db;
+    this.db = null;
+    if (db) {
+      await db.close().catch(() => {});
+    }
+  }
+
+  /**
+   * The credentials, event listeners and result cache shared by the
+   * pool and its clients.
+   * @internal
+   */
+  get sharedState(): SharedClientState {
+    return { auth: this.auth, events: this.events, resultCache: this.resultCache };
+  }
+
+  /**
+   * Closes a borrowed connection that failed, freeing its slot.
+   * @internal
+   */
+  async discard(conn: AdbcConnection): Promise<void> {
+    await this.destroy({ conn });
+  }
+
+  /**
+   * Fetches a connection to replace one a borrowed client discarded.
+   * @internal
+   */
+  async replaceConnection(): Promise<AdbcConnection> {
+    return this.acquireConnection();
+  }
+
+  private async acquireConnection(): Promise<AdbcConnection> {
+    if (this.closed) {
+      throw new ConnectionError('Pool is closed');
+    }
+    if (this.auth.expiring) {
+      // Idle connections carry the token that is about to expire.
+      await Promise.all(this.idle.splice(0).map((entry) => this.destroy(entry)));
+    }
+    for (let entry = this.idle.pop(); entry; entry = this.idle.pop()) {
+      clearTimeout(entry.timer);
+      if (await isHealthy(entry.conn)) return entry.conn;
+      await this.destroy(entry);
+    }
+    if (this.size < this.max) {
+      return this.open();
+    }
+    return new Promise<AdbcConnection>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+      if (this.acquireTimeoutMs > 0) {
+        waiter.timer = setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(
+            new ConnectionError(
+              `Timed out after ${this.acquireTimeoutMs}ms waiting for a pooled connection`
+            )
+          );
+        }, this.acquireTimeoutMs);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Opens a new connection on the shared database, counting it against `max`. */
+  private async open(): Promise<AdbcConnection> {
+    this.size++;
+    const started = performance.now();
+    try {
+      const config = await this.auth.resolveConfig();
+      if (this.db && this.dbToken !== config.token) {
+        await this.retire(this.db);
+      }
+      if (!this.db) {
+        this.db = openDatabase(config);
+        this.dbToken = config.token;
+      }
+      const db = this.db;
+      const conn = await openConnection(db, config);
+      this.databases.set(conn, db);
+      this.events.emit('connect', {
+        host: this.config.host,
+        port: this.config.port,
+        durationMs: performance.now() - started,
+      });
+      return conn;
+    } catch (error) {
+      this.size--;
+      const mapped = toClientError(error, `Failed to connect to ${this.config.host}:${this.config.port}`);
+      if (mapped instanceof AuthenticationError) {
+        this.auth.invalidate();
+      }
+      throw mapped;
+    }
+  }
+
+  /** Hands a returned connection to the next waiter, or parks it as idle. */
+  private async checkIn(conn: AdbcConnection): Promise<void> {
+    if (this.closed) {
+      await this.destroy({ conn });
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(conn);
+      return;
+    }
+    const entry: IdleConnection = { conn };
+    if (this.idleTimeoutMs > 0) {
+      entry.timer = setTimeout(() => {
+        if (this.size <= this.min || !this.idle.includes(entry)) return;
+        this.idle = this.idle.filter((e) => e !== entry);
+        void this.destroy(entry);
+      }, this.idleTimeoutMs);
+      entry.timer.unref?.();
+    }
+    this.idle.push(entry);
+  }
+
+  /**
+   * Closes a connection and, if callers are waiting and there is room,
+   * opens a replacement for the first of them.
+   */
+  private async destroy(entry: IdleConnection): Promise<void> {
+    clearTimeout(entry.timer);
+    this.size--;
+    await entry.conn.close().catch(() => {});
+    this.events.emit('disconnect', { host: this.config.host, port: this.config.port });
+    const db = this.databases.get(entry.conn);
+    this.databases.delete(entry.conn);
+    if (db && db !== this.db) {
+      await this.retire(db);
+    }
+    if (this.closed || this.waiters.length === 0 || this.size >= this.max) return;
+    const waiter = this.waiters.shift()!;
+    clearTimeout(waiter.timer);
+    this.open().then(waiter.resolve, waiter.reject);
+  }
+
+  /**
+   * Stops using `db` for new connections and closes it once none of its
+   * connections remain open.
+   */
+  private async retire(db: AdbcDatabase): Promise<void> {
+    if (db === this.db) {
+      this.db = null;
+    }
+    for (const owner of this.databases.values()) {
+      if (owner === db) return;
+    }
+    await db.close().catch(() => {});
+  }
+
+  /** Tops the pool up to `min` idle connections in the background. */
+  private warm(): void {
+    while (!this.closed && this.size < this.min) {
+      this.open().then(
+        (conn) => this.checkIn(conn),
+        () => {}
+      );
+    }
+  }
+}
+
+/** Health check run on idle connections before they are handed out. */
+async function isHealthy(conn: AdbcConnection): Promise<boolean> {
+  try {
+    await conn.query('SELECT 1');
+    return true;
+  } catch {
+    return false;
+  }
+}
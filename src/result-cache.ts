@@ -0,0 +1,225 @@
+// Opt-in cache of read-only query results, keyed by the normalized SQL
+// text and bound parameters and stored as Arrow IPC bytes in a pluggable
+// store (an LRU in memory by default).
+
+import { createHash } from 'node:crypto';
+import { RecordBatchReader, Table, tableToIPC } from 'apache-arrow';
+import { FlightError } from './errors';
+import {
+  CacheInvalidation,
+  CachedResult,
+  QueryCacheOptions,
+  QueryParameter,
+  ResultCacheOptions,
+  ResultCacheStore,
+} from './types';
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/** Where one query's result is cached. */
+export interface CacheSlot {
+  key: string;
+  /** Normalized SQL text. */
+  sql: string;
+  ttlMs: number;
+  tags: string[];
+}
+
+/**
+ * In-memory store that evicts the least recently used results once it
+ * holds more than `maxEntries` results or `maxBytes` bytes. A result
+ * larger than `maxBytes` is not stored.
+ */
+export class MemoryResultStore implements ResultCacheStore {
+  private readonly entriesByKey = new Map<string, CachedResult>();
+  private bytes = 0;
+
+  constructor(
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+    private readonly maxBytes = DEFAULT_MAX_BYTES
+  ) {}
+
+  async get(key: string): Promise<CachedResult | undefined> {
+    const entry = this.entriesByKey.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used.
+      this.entriesByKey.delete(key);
+      this.entriesByKey.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResult): Promise<void> {
+    await this.delete(key);
+    if (entry.data.byteLength > this.maxBytes) return;
+    this.entriesByKey.set(key, entry);
+    this.bytes += entry.data.byteLength;
+    for (const oldest of this.entriesByKey.keys()) {
+      if (this.entriesByKey.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      await this.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entriesByKey.get(key);
+    if (!entry) return;
+    this.entriesByKey.delete(key);
+    this.bytes -= entry.data.byteLength;
+  }
+
+  async entries(): Promise<Array<[string, CachedResult]>> {
+    return [...this.entriesByKey];
+  }
+}
+
+/**
+ * The result cache of a client, or of a pool and its clients. A store
+ * that fails to read or write is treated as a miss, so the cache can
+ * never fail a query; invalidation errors are passed on.
+ */
+export class ResultCache {
+  private readonly ttlMs: number;
+  private readonly store: ResultCacheStore;
+
+  constructor(options: ResultCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    checkTtl(this.ttlMs);
+    for (const [name, value] of [
+      ['maxEntries', options.maxEntries],
+      ['maxBytes', options.maxBytes],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        throw new FlightError(`Result cache ${name} must be a positive integer`);
+      }
+    }
+    this.store = options.store ?? new MemoryResultStore(options.maxEntries, options.maxBytes);
+  }
+
+  /** Returns a cache for `config.cache`, or `undefined` when caching is off. */
+  static create(config: { cache?: boolean | ResultCacheOptions }): ResultCache | undefined {
+    if (!config.cache) return undefined;
+    return new ResultCache(config.cache === true ? {} : config.cache);
+  }
+
+  /**
+   * Key and settings under which a query's result is cached. Rejects an
+   * invalid per-query TTL before the query runs.
+   */
+  slot(sql: string, params: readonly QueryParameter[], options: QueryCacheOptions = {}): CacheSlot {
+    const ttlMs = options.ttlMs ?? this.ttlMs;
+    checkTtl(ttlMs);
+    const normalized = normalizeSql(sql);
+    const encoded = JSON.stringify([normalized, params.map((param) => encodeParameter(param))]);
+    return {
+      key: createHash('sha256').update(encoded).digest('hex'),
+      sql: normalized,
+      ttlMs,
+      tags: options.tags ?? [],
+    };
+  }
+
+  /** The fresh result cached for `slot`, if any. */
+  async get(slot: CacheSlot): Promise<Table | undefined> {
+    try {
+      const entry = await this.store.get(slot.key);
+      if (!entry) return undefined;
+      if (entry.expiresAt > Date.now()) {
+        try {
+          return decodeResult(entry.data);
+        } catch {
+          // Bytes that do not decode are dropped like an expired entry.
+        }
+      }
+      await this.store.delete(slot.key);
+    } catch {
+      // A store that cannot be reached is a miss.
+    }
+    return undefined;
+  }
+
+  async set(slot: CacheSlot, table: Table): Promise<void> {
+    const entry: CachedResult = {
+      sql: slot.sql,
+      tags: slot.tags,
+      expiresAt: Date.now() + slot.ttlMs,
+      data: tableToIPC(table, 'stream'),
+    };
+    try {
+      await this.store.set(slot.key, entry);
+    } catch {
+      // The result was fetched; failing to keep it is not an error.
+    }
+  }
+
+  /**
+   * Removes the results matching `selector` (every result without one)
+   * and returns how many were removed.
+   */
+  async invalidate(selector?: CacheInvalidation): Promise<number> {
+    const entries = await this.store.entries();
+    let removed = 0;
+    for (const [key, entry] of entries) {
+      if (selector && !matches(entry, selector)) continue;
+      await this.store.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+}
+
+/**
+ * Collapses whitespace and drops comments and a trailing semicolon, so
+ * formatting differences share a cache entry. String literals and
+ * quoted identifiers are kept verbatim.
+ */
+export function normalizeSql(sql: string): string {
+  // Odd parts are the comments and quoted tokens the pattern captures.
+  const parts = sql.split(/(--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'|"(?:[^"]|"")*")/);
+  let normalized = '';
+  let code = '';
+  for (const [index, part] of parts.entries()) {
+    if (index % 2 === 0 || part.startsWith('-') || part.startsWith('/')) {
+      code += index % 2 === 0 ? part : ' ';
+      continue;
+    }
+    normalized += collapse(code) + part;
+    code = '';
+  }
+  normalized += collapse(code);
+  return normalized.trim().replace(/\s*;$/, '');
+}
+
+function collapse(code: string): string {
+  return code.split(/\s+/).join(' ');
+}
+
+function matches(entry: CachedResult, selector: CacheInvalidation): boolean {
+  if (selector instanceof RegExp) {
+    selector.lastIndex = 0;
+    return selector.test(entry.sql);
+  }
+  return entry.tags.includes(selector.tag);
+}
+
+/** Reads a cached result back, throwing when `data` is not an Arrow IPC stream. */
+function decodeResult(data: Uint8Array): Table {
+  const reader = RecordBatchReader.from(data).open();
+  if (!reader.schema) throw new Error('Cached result is not an Arrow IPC stream');
+  return new Table(reader.readAll());
+}
+
+/** Type-tags a parameter so e.g. 1, 1n and '1' get different keys. */
+function encodeParameter(param: QueryParameter): [string, string | null] {
+  if (param === null) return ['null', null];
+  if (param instanceof Date) return ['date', param.toISOString()];
+  if (param instanceof Uint8Array) return ['bytes', Buffer.from(param).toString('base64')];
+  return [typeof param, String(param)];
+}
+
+function checkTtl(ttlMs: number): void {
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    throw new FlightError('Result cache TTL must be a positive number of milliseconds');
+  }
+}
@@ -0,0 +1,58 @@
+// Retry policy for transient failures (server restarts, dropped
+// connections): which errors count as transient and how long to back
+// off between attempts.
+
+import { FlightError } from './errors';
+import { RetryPolicy } from './types';
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/** ADBC status codes treated as transient unless the policy overrides them. */
+export const DEFAULT_RETRYABLE_CODES: readonly string[] = ['IO', 'Timeout'];
+
+/**
+ * Fills in retry defaults. Without a configured policy a call is tried
+ * once (transient failures still reset the connection for the next
+ * call).
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): ResolvedRetryPolicy {
+  const resolved = {
+    maxAttempts: policy ? 3 : 1,
+    initialDelayMs: 100,
+    maxDelayMs: 5000,
+    multiplier: 2,
+    retryableCodes: [...DEFAULT_RETRYABLE_CODES],
+    ...policy,
+  };
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+    throw new FlightError('Retry maxAttempts must be a positive integer');
+  }
+  return resolved;
+}
+
+/** Whether a (mapped) error is transient under `policy`. */
+export function isTransientError(error: unknown, policy: ResolvedRetryPolicy): boolean {
+  const code = (error as { code?: string } | undefined)?.code;
+  return code !== undefined && policy.retryableCodes.includes(code);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff
+ * capped at `maxDelayMs`, with jitter in the upper half of the window so
+ * clients reconnecting after a restart spread out.
+ */
+export function backoffDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.multiplier ** (attempt - 1)
+  );
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
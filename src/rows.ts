@@ -0,0 +1,175 @@
+// Conversion of Arrow results into plain, JSON-safe JS objects
+// (`rowMode: 'objects'`), with configurable handling of 64-bit
+// integers, decimals, timestamps and binary values.
+
+import { DataType, Field, IntervalUnit, Table } from 'apache-arrow';
+import { ObjectRowsOptions, QueryOptions, ResultRow, RowConversionOptions } from './types';
+
+type ResolvedConversion = Required<RowConversionOptions>;
+
+const DEFAULT_CONVERSION: ResolvedConversion = {
+  bigint: 'string',
+  decimal: 'string',
+  timestamp: 'Date',
+  binary: 'base64',
+};
+
+const EXTENSION_NAME = 'ARROW:extension:name';
+
+/** Whether the caller asked for plain-object rows instead of a Table. */
+export function wantsObjects(options?: QueryOptions | ObjectRowsOptions): options is ObjectRowsOptions {
+  return (options as Partial<ObjectRowsOptions> | undefined)?.rowMode === 'objects';
+}
+
+/**
+ * Converts every row of `table` into a plain object keyed by column
+ * name. Nested LIST/STRUCT/MAP values become arrays and objects, ENUMs
+ * their string value, INTERVALs `{ months, days, nanoseconds }` and
+ * UUIDs their canonical string; 64-bit integers, decimals,
+ * timestamps and BLOBs follow `options`.
+ */
+export function tableToObjects(table: Table, options: RowConversionOptions = {}): ResultRow[] {
+  const names = table.schema.fields.map((field) => field.name);
+  return tableToArrays(table, options).map((values) => {
+    const row: ResultRow = {};
+    for (const [idx, name] of names.entries()) {
+      row[name] = values[idx];
+    }
+    return row;
+  });
+}
+
+/** Like `tableToObjects()`, but each row is an array in column order. */
+export function tableToArrays(table: Table, options: RowConversionOptions = {}): unknown[][] {
+  const conversion = { ...DEFAULT_CONVERSION, ...options };
+  const columns = table.schema.fields.map((field, idx) => ({
+    field,
+    vector: table.getChildAt(idx)!,
+  }));
+  const rows: unknown[][] = [];
+  for (let i = 0; i < table.numRows; i++) {
+    rows.push(columns.map(({ field, vector }) => convertValue(vector.get(i), field, conversion)));
+  }
+  return rows;
+}
+
+function convertValue(value: any, field: Field, conversion: ResolvedConversion): unknown {
+  if (value === null || value === undefined) return null;
+  const type: DataType = field.type;
+  if (field.metadata.get(EXTENSION_NAME) === 'arrow.uuid' && value instanceof Uint8Array) {
+    return formatUuid(value);
+  }
+  if (isBinaryType(type)) {
+    return conversion.binary === 'base64' ? Buffer.from(value).toString('base64') : value;
+  }
+  if (DataType.isDictionary(type)) {
+    return convertValue(value, new Field(field.name, type.dictionary), conversion);
+  }
+  if (DataType.isInt(type) || DataType.isTime(type)) {
+    return typeof value === 'bigint' ? convertBigInt(value, conversion) : value;
+  }
+  if (DataType.isDecimal(type)) {
+    return convertDecimal(String(value), type.scale, conversion);
+  }
+  if (DataType.isTimestamp(type)) {
+    return convertTimestamp(Number(value), conversion);
+  }
+  if (DataType.isDate(type)) {
+    const date = convertTimestamp(Number(value), conversion);
+    return typeof date === 'string' ? date.slice(0, 10) : date;
+  }
+  if (DataType.isInterval(type)) {
+    return convertInterval(value, type.unit, conversion);
+  }
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) {
+    const child = type.children[0]!;
+    return Array.from(value, (item) => convertValue(item, child, conversion));
+  }
+  if (DataType.isStruct(type)) {
+    const result: ResultRow = {};
+    for (const child of type.children) {
+      result[child.name] = convertValue(value[child.name], child, conversion);
+    }
+    return result;
+  }
+  if (DataType.isMap(type)) {
+    const [keyField, valueField] = type.children[0]!.type.children as Field[];
+    const result: ResultRow = {};
+    for (const [key, item] of value as Iterable<[unknown, unknown]>) {
+      result[String(convertValue(key, keyField!, conversion))] = convertValue(
+        item,
+        valueField!,
+        conversion
+      );
+    }
+    return result;
+  }
+  return value;
+}
+
+function isBinaryType(type: DataType): boolean {
+  return (
+    DataType.isBinary(type) ||
+    DataType.isLargeBinary(type) ||
+    DataType.isBinaryView(type) ||
+    DataType.isFixedSizeBinary(type)
+  );
+}
+
+function convertBigInt(value: bigint, conversion: ResolvedConversion): bigint | number | string {
+  switch (conversion.bigint) {
+    case 'bigint':
+      return value;
+    case 'number':
+      return Number(value);
+    default:
+      return value.toString();
+  }
+}
+
+/**
+ * `digits` is the unscaled integer as Arrow reports it. Scale-0
+ * decimals (which is how HUGEINT arrives) follow the `bigint` option.
+ */
+function convertDecimal(digits: string, scale: number, conversion: ResolvedConversion): unknown {
+  if (scale <= 0) {
+    return convertBigInt(BigInt(digits) * 10n ** BigInt(-scale), conversion);
+  }
+  const sign = digits.startsWith('-') ? '-' : '';
+  const magnitude = digits.slice(sign.length).padStart(scale + 1, '0');
+  const text = `${sign}${magnitude.slice(0, -scale)}.${magnitude.slice(-scale)}`;
+  return conversion.decimal === 'number' ? Number(text) : text;
+}
+
+function convertTimestamp(epochMs: number, conversion: ResolvedConversion): Date | string | number {
+  switch (conversion.timestamp) {
+    case 'epochMs':
+      return epochMs;
+    case 'iso':
+      return new Date(epochMs).toISOString();
+    default:
+      return new Date(epochMs);
+  }
+}
+
+/** Arrow JS reports intervals as Int32Arrays whose layout depends on the unit. */
+function convertInterval(
+  value: Int32Array,
+  unit: IntervalUnit,
+  conversion: ResolvedConversion
+): { months: number; days: number; nanoseconds: unknown } {
+  if (unit === IntervalUnit.YEAR_MONTH) {
+    return { months: value[0]! * 12 + value[1]!, days: 0, nanoseconds: convertBigInt(0n, conversion) };
+  }
+  if (unit === IntervalUnit.DAY_TIME) {
+    const nanos = BigInt(value[1]!) * 1_000_000n;
+    return { months: 0, days: value[0]!, nanoseconds: convertBigInt(nanos, conversion) };
+  }
+  const nanos = BigInt.asIntN(64, (BigInt(value[3]!) << 32n) | BigInt(value[2]! >>> 0));
+  return { months: value[0]!, days: value[1]!, nanoseconds: convertBigInt(nanos, conversion) };
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Buffer.from(bytes).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,257 @@
+// Flight SQL SqlInfo IDs (plus GizmoSQL extensions), decoding of the
+// dense-union values of a GetSqlInfo result, and the typed `ServerInfo`
+// view built from them.
+
+import { MapRow, Table } from 'apache-arrow';
+import {
+  IdentifierCase,
+  IsolationLevel,
+  ServerInfo,
+  SqlGrammar,
+  SqlInfoValue,
+  TransactionSupport,
+} from './types';
+
+/** SqlInfo IDs as defined by the Flight SQL protocol (`FlightSql.proto`). */
+export const SqlInfo = {
+  // Server information
+  FLIGHT_SQL_SERVER_NAME: 0,
+  FLIGHT_SQL_SERVER_VERSION: 1,
+  FLIGHT_SQL_SERVER_ARROW_VERSION: 2,
+  FLIGHT_SQL_SERVER_READ_ONLY: 3,
+  FLIGHT_SQL_SERVER_SQL: 4,
+  FLIGHT_SQL_SERVER_SUBSTRAIT: 5,
+  FLIGHT_SQL_SERVER_SUBSTRAIT_MIN_VERSION: 6,
+  FLIGHT_SQL_SERVER_SUBSTRAIT_MAX_VERSION: 7,
+  FLIGHT_SQL_SERVER_TRANSACTION: 8,
+  FLIGHT_SQL_SERVER_CANCEL: 9,
+  FLIGHT_SQL_SERVER_BULK_INGESTION: 10,
+  FLIGHT_SQL_SERVER_INGEST_TRANSACTIONS_SUPPORTED: 11,
+  FLIGHT_SQL_SERVER_STATEMENT_TIMEOUT: 100,
+  FLIGHT_SQL_SERVER_TRANSACTION_TIMEOUT: 101,
+
+  // SQL syntax information
+  SQL_DDL_CATALOG: 500,
+  SQL_DDL_SCHEMA: 501,
+  SQL_DDL_TABLE: 502,
+  SQL_IDENTIFIER_CASE: 503,
+  SQL_IDENTIFIER_QUOTE_CHAR: 504,
+  SQL_QUOTED_IDENTIFIER_CASE: 505,
+  SQL_ALL_TABLES_ARE_SELECTABLE: 506,
+  SQL_NULL_ORDERING: 507,
+  SQL_KEYWORDS: 508,
+  SQL_NUMERIC_FUNCTIONS: 509,
+  SQL_STRING_FUNCTIONS: 510,
+  SQL_SYSTEM_FUNCTIONS: 511,
+  SQL_DATETIME_FUNCTIONS: 512,
+  SQL_SEARCH_STRING_ESCAPE: 513,
+  SQL_EXTRA_NAME_CHARACTERS: 514,
+  SQL_SUPPORTS_COLUMN_ALIASING: 515,
+  SQL_NULL_PLUS_NULL_IS_NULL: 516,
+  SQL_SUPPORTS_CONVERT: 517,
+  SQL_SUPPORTS_TABLE_CORRELATION_NAMES: 518,
+  SQL_SUPPORTS_DIFFERENT_TABLE_CORRELATION_NAMES: 519,
+  SQL_SUPPORTS_EXPRESSIONS_IN_ORDER_BY: 520,
+  SQL_SUPPORTS_ORDER_BY_UNRELATED: 521,
+  SQL_SUPPORTED_GROUP_BY: 522,
+  SQL_SUPPORTS_LIKE_ESCAPE_CLAUSE: 523,
+  SQL_SUPPORTS_NON_NULLABLE_COLUMNS: 524,
+  SQL_SUPPORTED_GRAMMAR: 525,
+  SQL_ANSI92_SUPPORTED_LEVEL: 526,
+  SQL_SUPPORTS_INTEGRITY_ENHANCEMENT_FACILITY: 527,
+  SQL_OUTER_JOINS_SUPPORT_LEVEL: 528,
+  SQL_SCHEMA_TERM: 529,
+  SQL_PROCEDURE_TERM: 530,
+  SQL_CATALOG_TERM: 531,
+  SQL_CATALOG_AT_START: 532,
+  SQL_SCHEMAS_SUPPORTED_ACTIONS: 533,
+  SQL_CATALOGS_SUPPORTED_ACTIONS: 534,
+  SQL_SUPPORTED_POSITIONED_COMMANDS: 535,
+  SQL_SELECT_FOR_UPDATE_SUPPORTED: 536,
+  SQL_STORED_PROCEDURES_SUPPORTED: 537,
+  SQL_SUPPORTED_SUBQUERIES: 538,
+  SQL_CORRELATED_SUBQUERIES_SUPPORTED: 539,
+  SQL_SUPPORTED_UNIONS: 540,
+  SQL_MAX_BINARY_LITERAL_LENGTH: 541,
+  SQL_MAX_CHAR_LITERAL_LENGTH: 542,
+  SQL_MAX_COLUMN_NAME_LENGTH: 543,
+  SQL_MAX_COLUMNS_IN_GROUP_BY: 544,
+  SQL_MAX_COLUMNS_IN_INDEX: 545,
+  SQL_MAX_COLUMNS_IN_ORDER_BY: 546,
+  SQL_MAX_COLUMNS_IN_SELECT: 547,
+  SQL_MAX_COLUMNS_IN_TABLE: 548,
+  SQL_MAX_CONNECTIONS: 549,
+  SQL_MAX_CURSOR_NAME_LENGTH: 550,
+  SQL_MAX_INDEX_LENGTH: 551,
+  SQL_DB_SCHEMA_NAME_LENGTH: 552,
+  SQL_MAX_PROCEDURE_NAME_LENGTH: 553,
+  SQL_MAX_CATALOG_NAME_LENGTH: 554,
+  SQL_MAX_ROW_SIZE: 555,
+  SQL_MAX_ROW_SIZE_INCLUDES_BLOBS: 556,
+  SQL_MAX_STATEMENT_LENGTH: 557,
+  SQL_MAX_STATEMENTS: 558,
+  SQL_MAX_TABLE_NAME_LENGTH: 559,
+  SQL_MAX_TABLES_IN_SELECT: 560,
+  SQL_MAX_USERNAME_LENGTH: 561,
+  SQL_DEFAULT_TRANSACTION_ISOLATION: 562,
+  SQL_TRANSACTIONS_SUPPORTED: 563,
+  SQL_SUPPORTED_TRANSACTIONS_ISOLATION_LEVELS: 564,
+  SQL_DATA_DEFINITION_CAUSES_TRANSACTION_COMMIT: 565,
+  SQL_DATA_DEFINITIONS_IN_TRANSACTIONS_IGNORED: 566,
+  SQL_SUPPORTED_RESULT_SET_TYPES: 567,
+  SQL_SUPPORTED_CONCURRENCIES_FOR_RESULT_SET_UNSPECIFIED: 568,
+  SQL_SUPPORTED_CONCURRENCIES_FOR_RESULT_SET_FORWARD_ONLY: 569,
+  SQL_SUPPORTED_CONCURRENCIES_FOR_RESULT_SET_SCROLL_SENSITIVE: 570,
+  SQL_SUPPORTED_CONCURRENCIES_FOR_RESULT_SET_SCROLL_INSENSITIVE: 571,
+  SQL_BATCH_UPDATES_SUPPORTED: 572,
+  SQL_SAVEPOINTS_SUPPORTED: 573,
+  SQL_NAMED_PARAMETERS_SUPPORTED: 574,
+  SQL_LOCATORS_UPDATE_COPY: 575,
+  SQL_STORED_FUNCTIONS_USING_CALL_SYNTAX_SUPPORTED: 576,
+
+  // GizmoSQL extensions
+  GIZMOSQL_INSTRUMENTATION_ENABLED: 10000,
+  GIZMOSQL_INSTRUMENTATION_CATALOG: 10001,
+  GIZMOSQL_INSTRUMENTATION_SCHEMA: 10002,
+} as const;
+
+export type SqlInfo = (typeof SqlInfo)[keyof typeof SqlInfo];
+
+/** The IDs `getServerInfo()` requests. */
+export const SERVER_INFO_IDS: readonly SqlInfo[] = [
+  SqlInfo.FLIGHT_SQL_SERVER_NAME,
+  SqlInfo.FLIGHT_SQL_SERVER_VERSION,
+  SqlInfo.FLIGHT_SQL_SERVER_ARROW_VERSION,
+  SqlInfo.FLIGHT_SQL_SERVER_READ_ONLY,
+  SqlInfo.FLIGHT_SQL_SERVER_SQL,
+  SqlInfo.FLIGHT_SQL_SERVER_SUBSTRAIT,
+  SqlInfo.FLIGHT_SQL_SERVER_TRANSACTION,
+  SqlInfo.FLIGHT_SQL_SERVER_CANCEL,
+  SqlInfo.SQL_IDENTIFIER_CASE,
+  SqlInfo.SQL_IDENTIFIER_QUOTE_CHAR,
+  SqlInfo.SQL_QUOTED_IDENTIFIER_CASE,
+  SqlInfo.SQL_SUPPORTED_GRAMMAR,
+  SqlInfo.SQL_DEFAULT_TRANSACTION_ISOLATION,
+  SqlInfo.SQL_TRANSACTIONS_SUPPORTED,
+  SqlInfo.SQL_SUPPORTED_TRANSACTIONS_ISOLATION_LEVELS,
+  SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED,
+  SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG,
+  SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA,
+];
+
+// Enum values of the protocol, indexed by their wire value (or bit).
+const TRANSACTION_SUPPORT: readonly TransactionSupport[] = ['none', 'transaction', 'savepoint'];
+const IDENTIFIER_CASES: readonly IdentifierCase[] = ['unknown', 'insensitive', 'uppercase', 'lowercase'];
+const SQL_GRAMMARS: readonly SqlGrammar[] = ['minimum', 'core', 'extended'];
+const ISOLATION_LEVELS: readonly IsolationLevel[] = [
+  'none',
+  'read_uncommitted',
+  'read_committed',
+  'repeatable_read',
+  'serializable',
+];
+
+/**
+ * Parses a GetSqlInfo result (`info_name: uint32`, `info_value:
+ * dense_union`) into a Map of SqlInfo ID to decoded value.
+ */
+export function parseSqlInfoTable(table: Table): Map<number, SqlInfoValue> {
+  const result = new Map<number, SqlInfoValue>();
+  const infoNameVector = table.getChild('info_name');
+  const valueVector = table.getChild('info_value') ?? table.getChild('value');
+  if (!infoNameVector || !valueVector) {
+    return result;
+  }
+  for (let i = 0; i < table.numRows; i++) {
+    result.set(Number(infoNameVector.get(i)), decodeSqlInfoValue(valueVector.get(i)));
+  }
+  return result;
+}
+
+/**
+ * Decodes one union member: string, bool, int64 (bigint) and int32
+ * bitmask values pass through, `string_list` becomes `string[]` and
+ * `int32_to_int32_list_map` a `Map<number, number[]>`.
+ */
+export function decodeSqlInfoValue(value: any): SqlInfoValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    typeof value === 'number' ||
+    typeof value === 'bigint'
+  ) {
+    return value;
+  }
+  if (value instanceof MapRow) {
+    const map = new Map<number, number[]>();
+    for (const [key, list] of value) {
+      map.set(Number(key), toList(list).map(Number));
+    }
+    return map;
+  }
+  if (Array.isArray(value) || typeof value.toArray === 'function') {
+    return toList(value).map(String);
+  }
+  return String(value);
+}
+
+function toList(value: any): unknown[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : Array.from(value.toArray());
+}
+
+/** Builds the typed server description from decoded SqlInfo values. */
+export function buildServerInfo(info: Map<number, SqlInfoValue>): ServerInfo {
+  return {
+    serverName: stringOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_NAME)),
+    serverVersion: stringOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_VERSION)),
+    arrowVersion: stringOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_ARROW_VERSION)),
+    readOnly: booleanOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_READ_ONLY)),
+    supportsSql: booleanOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_SQL)),
+    supportsSubstrait: booleanOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_SUBSTRAIT)),
+    supportsCancel: booleanOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_CANCEL)),
+    sqlGrammar: bitsOf(info.get(SqlInfo.SQL_SUPPORTED_GRAMMAR), SQL_GRAMMARS),
+    transactionSupport: enumOf(info.get(SqlInfo.FLIGHT_SQL_SERVER_TRANSACTION), TRANSACTION_SUPPORT),
+    transactionsSupported: booleanOf(info.get(SqlInfo.SQL_TRANSACTIONS_SUPPORTED)),
+    defaultIsolationLevel: enumOf(info.get(SqlInfo.SQL_DEFAULT_TRANSACTION_ISOLATION), ISOLATION_LEVELS),
+    supportedIsolationLevels: bitsOf(
+      info.get(SqlInfo.SQL_SUPPORTED_TRANSACTIONS_ISOLATION_LEVELS),
+      ISOLATION_LEVELS,
+    ),
+    identifierQuoteChar: stringOf(info.get(SqlInfo.SQL_IDENTIFIER_QUOTE_CHAR)),
+    identifierCase: enumOf(info.get(SqlInfo.SQL_IDENTIFIER_CASE), IDENTIFIER_CASES),
+    quotedIdentifierCase: enumOf(info.get(SqlInfo.SQL_QUOTED_IDENTIFIER_CASE), IDENTIFIER_CASES),
+    instrumentation: {
+      enabled: booleanOf(info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED)),
+      catalog: stringOf(info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG)),
+      schema: stringOf(info.get(SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA)),
+    },
+  };
+}
+
+function stringOf(value: SqlInfoValue | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+/** Booleans, plus the 0/1 and 'true'/'false' some servers send instead. */
+function booleanOf(value: SqlInfoValue | undefined): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number' || typeof value === 'bigint') return Number(value) !== 0;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return null;
+}
+
+function enumOf<T>(value: SqlInfoValue | undefined, names: readonly T[]): T | null {
+  if (typeof value !== 'number' && typeof value !== 'bigint') return null;
+  return names[Number(value)] ?? null;
+}
+
+/** The names of the bits set in an int32 bitmask. */
+function bitsOf<T>(value: SqlInfoValue | undefined, names: readonly T[]): T[] | null {
+  if (typeof value !== 'number' && typeof value !== 'bigint') return null;
+  const mask = Number(value);
+  return names.filter((_, bit) => (mask & (1 << bit)) !== 0);
+}
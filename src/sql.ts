@@ -0,0 +1,97 @@
+// The `sql` tagged template: builds queries whose interpolated values
+// are bound as positional parameters instead of spliced into the text,
+// with DuckDB identifier quoting, raw text and fragment composition.
+
+import { FlightError } from './errors';
+import { QueryParameter } from './types';
+
+/** What can be interpolated into `sql`: a bound value or another fragment. */
+export type SqlValue = QueryParameter | SqlFragment;
+
+/**
+ * A piece of SQL built with `sql`: text with a `?` placeholder for each
+ * of its `params`. Pass it to `execute()` / `executeStream()` instead of
+ * a string. It cannot be turned into a string, so it is never spliced
+ * into a query without its parameters.
+ */
+export class SqlFragment {
+  /** @internal Build fragments with `sql`, `sql.id()`, `sql.raw()` or `sql.join()`. */
+  constructor(
+    readonly text: string,
+    readonly params: readonly QueryParameter[]
+  ) {}
+
+  toString(): never {
+    throw new FlightError('A sql fragment cannot be used as a string; pass it to execute() as the query');
+  }
+}
+
+export interface SqlTag {
+  /** Builds a fragment; interpolated values become bound parameters. */
+  (strings: TemplateStringsArray, ...values: SqlValue[]): SqlFragment;
+  /** Quotes an identifier, or a qualified name from its parts (`sql.id('sales', 'orders')`). */
+  id(...names: string[]): SqlFragment;
+  /** Trusted SQL text, inserted verbatim. Never pass user input. */
+  raw(text: string): SqlFragment;
+  /** Joins values and fragments with `separator` (default ', '). */
+  join(items: readonly SqlValue[], separator?: string | SqlFragment): SqlFragment;
+}
+
+/**
+ * Tagged template for safe queries:
+ * ``sql`SELECT * FROM ${sql.id('sales', 'orders')} WHERE region = ${region}` ``.
+ */
+export const sql: SqlTag = Object.assign(
+  (strings: TemplateStringsArray, ...values: SqlValue[]): SqlFragment => {
+    const builder = new FragmentBuilder();
+    for (const [index, text] of strings.entries()) {
+      builder.text += text;
+      if (index < values.length) {
+        builder.append(values[index]!);
+      }
+    }
+    return builder.build();
+  },
+  {
+    id: (...names: string[]): SqlFragment => {
+      if (names.length === 0 || names.some((name) => typeof name !== 'string' || name === '')) {
+        throw new FlightError('sql.id() requires one or more non-empty names');
+      }
+      return new SqlFragment(names.map((name) => `"${name.split('"').join('""')}"`).join('.'), []);
+    },
+    raw: (text: string): SqlFragment => new SqlFragment(text, []),
+    join: (items: readonly SqlValue[], separator: string | SqlFragment = ', '): SqlFragment => {
+      const builder = new FragmentBuilder();
+      for (const [index, item] of items.entries()) {
+        if (index > 0) {
+          builder.append(typeof separator === 'string' ? new SqlFragment(separator, []) : separator);
+        }
+        builder.append(item);
+      }
+      return builder.build();
+    },
+  }
+);
+
+/** Accumulates fragment text and parameters in order. */
+class FragmentBuilder {
+  text = '';
+  private readonly params: QueryParameter[] = [];
+
+  append(value: SqlValue): void {
+    if (value instanceof SqlFragment) {
+      this.text += value.text;
+      this.params.push(...value.params);
+      return;
+    }
+    if (value === undefined) {
+      throw new FlightError('Cannot bind undefined in a sql template; use null for SQL NULL');
+    }
+    this.text += '?';
+    this.params.push(value);
+  }
+
+  build(): SqlFragment {
+    return new SqlFragment(this.text, this.params);
+  }
+}
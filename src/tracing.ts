@@ -0,0 +1,106 @@
+// OpenTelemetry client spans for query and metadata calls, and the W3C
+// trace context handed to the Flight SQL driver so server-side spans
+// join the caller's trace. @opentelemetry/api is an optional peer
+// dependency, loaded only when tracing is enabled.
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import type { Attributes, Span, Tracer } from '@opentelemetry/api';
+import { FlightError } from './errors';
+import { TracingOptions } from './types';
+
+/** ADBC connection option the Flight SQL driver reads the W3C `traceparent` from. */
+export const TRACE_PARENT_OPTION = 'adbc.telemetry.trace_parent';
+
+const TRACER_NAME = '@gizmodata/gizmosql-client';
+
+type OpenTelemetryApi = typeof import('@opentelemetry/api');
+
+/** The span of one traced call. */
+export interface QuerySpan {
+  /** W3C `traceparent` of the span; empty when the span is not sampled into a valid trace. */
+  readonly traceParent: string;
+  /** Runs `fn` with the span as the active span, so nested calls become its children. */
+  within<T>(fn: () => T): T;
+  end(rowCount?: number): void;
+  fail(error: Error, code?: string): void;
+}
+
+/** Starts a client span per call, as children of the caller's active span. */
+export class QueryTracer {
+  private constructor(
+    private readonly api: OpenTelemetryApi,
+    private readonly tracer: Tracer,
+    private readonly captureStatement: boolean,
+    private readonly server: Attributes
+  ) {}
+
+  /**
+   * Returns a tracer for `config.tracing`, or `undefined` when tracing
+   * is off. Throws a `FlightError` when @opentelemetry/api is not installed.
+   */
+  static create(config: {
+    host: string;
+    port: number;
+    tracing?: boolean | TracingOptions;
+  }): QueryTracer | undefined {
+    if (!config.tracing) return undefined;
+    const options = config.tracing === true ? {} : config.tracing;
+    const api = loadApi();
+    const provider = options.tracerProvider ?? api.trace.getTracerProvider();
+    return new QueryTracer(api, provider.getTracer(TRACER_NAME) as Tracer, options.captureStatement ?? true, {
+      'server.address': config.host,
+      'server.port': config.port,
+    });
+  }
+
+  /** Starts the span of `operation`; `sql` is already redacted. */
+  startSpan(operation: string, sql?: string): QuerySpan {
+    const { api } = this;
+    const attributes: Attributes = { 'db.system': 'gizmosql', 'db.operation': operation, ...this.server };
+    if (sql !== undefined && this.captureStatement) {
+      attributes['db.statement'] = sql;
+    }
+    const span: Span = this.tracer.startSpan(
+      `gizmosql.${operation}`,
+      { kind: api.SpanKind.CLIENT, attributes },
+      api.context.active()
+    );
+    const spanContext = span.spanContext();
+    const traceParent = api.isSpanContextValid(spanContext)
+      ? `00-${spanContext.traceId}-${spanContext.spanId}-${spanContext.traceFlags.toString(16).padStart(2, '0')}`
+      : '';
+    return {
+      traceParent,
+      within: (fn) => api.context.with(api.trace.setSpan(api.context.active(), span), fn),
+      end: (rowCount) => {
+        if (rowCount !== undefined) {
+          span.setAttribute('db.response.returned_rows', rowCount);
+        }
+        span.end();
+      },
+      fail: (error, code) => {
+        span.recordException(error);
+        span.setAttribute('error.type', code ?? error.name);
+        span.setStatus({ code: api.SpanStatusCode.ERROR, message: error.message });
+        span.end();
+      },
+    };
+  }
+}
+
+/**
+ * Loads the optional peer dependency on first use. It resolves from this
+ * module in the CJS build; ESM contexts without `__filename` (e.g. ts-jest
+ * ESM transforms) resolve from the working directory instead.
+ */
+function loadApi(): OpenTelemetryApi {
+  const from = typeof __filename === 'undefined' ? path.join(process.cwd(), 'index.js') : __filename;
+  try {
+    return createRequire(from)('@opentelemetry/api') as OpenTelemetryApi;
+  } catch {
+    throw new FlightError(
+      'Tracing requires the optional peer dependency @opentelemetry/api; install it with `npm install @opentelemetry/api`'
+    );
+  }
+}
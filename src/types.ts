@@ -1,23 +1,392 @@
+import type { RecordBatch, Schema } from 'apache-arrow';
+
 export interface FlightClientConfig {
   host: string;
   port: number;
   plaintext?: boolean;
   tlsSkipVerify?: boolean;
+  /** CA certificate(s) to trust, as a PEM string or a path to a PEM file. */
+  tlsRootCerts?: string;
+  /** Client certificate chain for mutual TLS (PEM string or file path). */
+  tlsClientCert?: string;
+  /** Private key for `tlsClientCert` (PEM string or file path). */
+  tlsClientKey?: string;
+  /** Host name to verify the server certificate against instead of `host`. */
+  tlsServerNameOverride?: string;
   username?: string;
   password?: string;
-  token?: string;
+  /**
+   * Bearer token, or a provider called for a fresh one at connect time.
+   * A provider's token is renewed shortly before its `expiresAt`, and
+   * once after a call fails with Unauthenticated (retryable calls are
+   * then repeated; writes and ingests are not).
+   */
+  token?: string | TokenProvider;
+  /**
+   * How the client authenticates. By default `token` is sent as a Bearer
+   * header when set, otherwise `username`/`password`. 'oauth' runs the
+   * browser login flow (see `oauth`) and connects with the issued token.
+   */
+  authType?: 'basic' | 'token' | 'oauth';
+  /** OAuth login flow settings for `authType: 'oauth'`. */
+  oauth?: OAuthOptions;
   /** OAuth HTTP port probed by discoverOAuthUrl() (default 31339). */
   oauthPort?: number;
+  /**
+   * Autocommit mode of the connection (default true). When false every
+   * statement joins an implicit transaction ended by commit()/rollback().
+   */
+  autocommit?: boolean;
+  /**
+   * Timeout applied to every query call that does not pass its own
+   * `timeoutMs` (default: none).
+   */
+  defaultQueryTimeoutMs?: number;
+  /**
+   * Retry policy for transient failures. Without it a call is attempted
+   * once, though a dropped connection is still re-opened on the next call.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Rewrites SQL text before it is passed to event listeners (e.g. to
+   * mask literals); the query sent to the server is unchanged.
+   */
+  redactSql?: (sql: string) => string;
+  /**
+   * Emits an OpenTelemetry client span for every query and metadata
+   * call and passes its trace context to the server. Requires the
+   * optional peer dependency @opentelemetry/api.
+   */
+  tracing?: boolean | TracingOptions;
+  /**
+   * Caches the results of read-only `execute()` calls (see
+   * `ResultCacheOptions`); `true` uses the defaults. Off by default.
+   */
+  cache?: boolean | ResultCacheOptions;
+}
+
+export interface TracingOptions {
+  /** Provider to take the tracer from (default: the globally registered one). */
+  tracerProvider?: { getTracer(name: string, version?: string): unknown };
+  /** Record the SQL text, after `redactSql`, as `db.statement` (default true). */
+  captureStatement?: boolean;
+}
+
+export interface ResultCacheOptions {
+  /** How long a result stays fresh, unless the query sets its own (default 60000). */
+  ttlMs?: number;
+  /** Most results the built-in memory store keeps before evicting the least recently used (default 100). */
+  maxEntries?: number;
+  /** Most Arrow IPC bytes the built-in memory store keeps (default 64 MiB). */
+  maxBytes?: number;
+  /** Where results are kept (default: an in-memory LRU store sized by the options above). */
+  store?: ResultCacheStore;
+}
+
+/** A cached query result, stored as an Arrow IPC stream. */
+export interface CachedResult {
+  /** Normalized SQL text of the query. */
+  sql: string;
+  tags: string[];
+  /** Epoch milliseconds after which the entry is stale. */
+  expiresAt: number;
+  data: Uint8Array;
+}
+
+/**
+ * Storage behind the result cache, e.g. backed by Redis. Keys are
+ * opaque hashes of the SQL text and parameters. Expiry is checked by the
+ * cache, so a store may also drop entries on its own at `expiresAt`.
+ */
+export interface ResultCacheStore {
+  get(key: string): Promise<CachedResult | undefined>;
+  set(key: string, entry: CachedResult): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Every stored entry, for pattern and tag invalidation. */
+  entries(): Promise<Array<[string, CachedResult]>>;
+}
+
+/** Per-query result cache settings. */
+export interface QueryCacheOptions {
+  /** Overrides the cache's `ttlMs` for this result. */
+  ttlMs?: number;
+  /** Labels for invalidating the result with `invalidateCache({ tag })`. */
+  tags?: string[];
+}
+
+/**
+ * Which cached results `invalidateCache()` removes: those whose
+ * normalized SQL matches a pattern, or those cached with a tag.
+ */
+export type CacheInvalidation = RegExp | { tag: string };
+
+/**
+ * How transient failures (server restarts, dropped connections) are
+ * retried. Only read-only statements and metadata calls are retried
+ * automatically; other statements opt in with `QueryOptions.retry`.
+ * Calls inside a transaction are never retried.
+ */
+export interface RetryPolicy {
+  /** Total attempts per call, including the first (default 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry (default 100ms). */
+  initialDelayMs?: number;
+  /** Upper bound on the delay between attempts (default 5000ms). */
+  maxDelayMs?: number;
+  /** Growth factor of the delay per attempt (default 2). */
+  multiplier?: number;
+  /** ADBC status codes treated as transient (default ['IO', 'Timeout']). */
+  retryableCodes?: string[];
+}
+
+/** Supplies a Bearer token, optionally with its expiry (a Date or epoch ms). */
+export type TokenProvider = () => Promise<string | { token: string; expiresAt?: Date | number }>;
+
+export interface OAuthOptions {
+  /**
+   * Called with the identity provider's login URL. Defaults to printing
+   * it to stderr; pass e.g. the `open` package to launch a browser.
+   */
+  openBrowser?: (authUrl: string) => void | Promise<void>;
+  /** Gives up if the login has not completed after this long (default 300000). */
+  timeoutMs?: number;
+  /** Delay between polls for the issued token (default 1000). */
+  pollIntervalMs?: number;
+  /** Aborting cancels the login. */
+  signal?: AbortSignal;
+  /** OAuth base URL (e.g. "https://host:31339"); skips discovery. */
+  url?: string;
 }
 
 export type FlightSQLClientConfig = FlightClientConfig;
 
+/** Where `loadProfile()` / `fromProfile()` read profiles from. */
+export interface ProfileOptions {
+  /**
+   * Profile file (default: `GIZMOSQL_PROFILES_FILE`, else
+   * `~/.gizmosql/profiles.json`).
+   */
+  file?: string;
+  /** Environment for the file override and `${VAR}` expansion (default `process.env`). */
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface FlightSQLPoolConfig extends FlightClientConfig {
+  /**
+   * Connections kept open even when idle (default 0). They are opened in
+   * the background once the first `acquire()` (or `execute()`) runs, not
+   * when the pool is constructed.
+   */
+  min?: number;
+  /** Upper bound on open connections (default 10). */
+  max?: number;
+  /** Idle connections above `min` are closed after this long (default 30000; 0 keeps them). */
+  idleTimeoutMs?: number;
+  /** How long `acquire()` waits for a free connection (default 30000; 0 waits forever). */
+  acquireTimeoutMs?: number;
+}
+
+/**
+ * A positional query parameter, bound to `?` / `$n` placeholders.
+ * Integral numbers bind as BIGINT, other numbers as DOUBLE, Dates as
+ * timestamps and Uint8Arrays as BLOBs.
+ */
+export type QueryParameter = number | bigint | string | boolean | Date | Uint8Array | null;
+
+/** Per-call options accepted by the query methods. */
+export interface QueryOptions {
+  /** Aborting cancels the query on the server and rejects with QueryCancelledError. */
+  signal?: AbortSignal;
+  /**
+   * Cancels the query after this many milliseconds (rejecting with
+   * QueryTimeoutError); overrides `defaultQueryTimeoutMs`, 0 disables.
+   * For streams the timeout covers consuming the whole result.
+   */
+  timeoutMs?: number;
+  /**
+   * Whether the call may be retried under the client's retry policy.
+   * Defaults to true for read-only statements and false otherwise.
+   */
+  retry?: boolean;
+  /**
+   * Result cache settings for a read-only `execute()`, when the client
+   * has a cache: `false` bypasses it, an object sets the TTL and tags.
+   */
+  cache?: boolean | QueryCacheOptions;
+}
+
+/**
+ * How `rowMode: 'objects'` converts values that have no exact JSON
+ * equivalent.
+ */
+export interface RowConversionOptions {
+  /**
+   * BIGINT/UBIGINT/HUGEINT values: 'string' (default), 'bigint', or
+   * 'number' (loses precision beyond 2^53).
+   */
+  bigint?: 'bigint' | 'number' | 'string';
+  /** DECIMAL values: 'string' (default, exact) or 'number'. */
+  decimal?: 'string' | 'number';
+  /** TIMESTAMP/DATE values: 'Date' (default), 'iso' strings or 'epochMs' numbers. */
+  timestamp?: 'Date' | 'iso' | 'epochMs';
+  /** BLOB values: 'base64' strings (default) or the raw 'Uint8Array'. */
+  binary?: 'base64' | 'Uint8Array';
+}
+
+/** Query options that return plain-object rows instead of an Arrow Table. */
+export interface ObjectRowsOptions extends QueryOptions, RowConversionOptions {
+  rowMode: 'objects';
+}
+
+/** A result row converted with `rowMode: 'objects'`. */
+export type ResultRow = Record<string, unknown>;
+
+export type ExportFormat = 'csv' | 'ndjson' | 'arrow-ipc-file' | 'arrow-ipc-stream';
+
+/** Payloads of the events emitted by `client.on()` / `pool.on()`. */
+export interface ClientEventMap {
+  connect: ConnectEvent;
+  disconnect: ConnectEvent;
+  'query:start': QueryEvent;
+  'query:end': QueryEndEvent;
+  'query:error': QueryErrorEvent;
+}
+
+export type ClientEventName = keyof ClientEventMap;
+
+export type ClientEventListener<E extends ClientEventName> = (event: ClientEventMap[E]) => void;
+
+/** Something `attachLogger()` can subscribe to: a client or a pool. */
+export interface ClientEventSource {
+  on<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): unknown;
+  off<E extends ClientEventName>(event: E, listener: ClientEventListener<E>): unknown;
+}
+
+export interface ConnectEvent {
+  host: string;
+  port: number;
+  /** Time taken to open the connection (connect events only). */
+  durationMs?: number;
+}
+
+/** A query or metadata call, identified by a per-call `id`. */
+export interface QueryEvent {
+  id: string;
+  /** Client method, e.g. 'execute' or 'getTables'. */
+  operation: string;
+  /** SQL text after `redactSql`; absent for metadata calls. */
+  sql?: string;
+}
+
+export interface QueryEndEvent extends QueryEvent {
+  durationMs: number;
+  /** Rows returned (or ingested), when known. */
+  rowCount?: number;
+  /** Size of the Arrow result buffers, when the result was Arrow data. */
+  byteCount?: number;
+}
+
+export interface QueryErrorEvent extends QueryEvent {
+  durationMs: number;
+  error: Error;
+  /** ADBC status code of the error (e.g. 'IO'), as mapped by the client. */
+  code?: string;
+}
+
+/** A pino- or console-style logger for `attachLogger()`. */
+export interface EventLogger {
+  debug(fields: Record<string, unknown>, message: string): void;
+  info(fields: Record<string, unknown>, message: string): void;
+  warn(fields: Record<string, unknown>, message: string): void;
+  error(fields: Record<string, unknown>, message: string): void;
+}
+
+export interface LoggerOptions {
+  /** Queries taking at least this long are logged as warnings (default 1000). */
+  slowQueryMs?: number;
+  /** Also log queries as they start, at debug level (default false). */
+  logQueryStart?: boolean;
+}
+
+/** Options for `exportQuery()`; the CSV options are ignored by other formats. */
+export interface ExportOptions extends QueryOptions {
+  format: ExportFormat;
+  /** CSV field delimiter (default ','). */
+  delimiter?: string;
+  /** Write a CSV header row with the column names (default true). */
+  header?: boolean;
+  /** Text written for NULL in CSV (default ''; empty strings are then quoted). */
+  nullText?: string;
+}
+
 export interface PreparedStatement {
   handle: Uint8Array;
   parameterSchema?: any;
   resultSchema?: any;
 }
 
+/**
+ * Query results delivered batch by batch (see
+ * `FlightSQLClient.executeStream()`). The schema is known before the
+ * first batch arrives.
+ */
+export interface RecordBatchStream extends AsyncIterable<RecordBatch> {
+  readonly schema: Schema;
+  /**
+   * Releases the stream, cancelling the query if batches remain. Reading
+   * to the end or breaking out of the iteration does this already; call
+   * it when the stream may never be iterated. Idempotent.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * How `FlightSQLClient.ingest()` treats the target table:
+ * - `create`: create it; fail if it exists
+ * - `append`: append to it; fail if it does not exist
+ * - `replace`: drop and recreate it if it exists
+ * - `create_append`: create it if needed, then append
+ */
+export type IngestMode = 'create' | 'append' | 'replace' | 'create_append';
+
+export interface IngestOptions {
+  /** Defaults to `create`. */
+  mode?: IngestMode;
+  catalog?: string;
+  dbSchema?: string;
+  /** Ingest into a temporary table. */
+  temporary?: boolean;
+}
+
+/** Options for `importFile()`; the ingest options apply to the target table. */
+export interface ImportOptions extends IngestOptions {
+  format: 'csv' | 'ndjson';
+  /**
+   * Column names and types; overrides the CSV header names and inference.
+   * NDJSON keys that are not in the schema are ignored.
+   */
+  schema?: Schema;
+  /** Infer column types from the first batch (default true); otherwise VARCHAR. */
+  inferSchema?: boolean;
+  /** CSV field delimiter (default ','). */
+  delimiter?: string;
+  /** Whether the CSV file starts with a header row (default true). */
+  header?: boolean;
+  /** Rows per ingested record batch (default 10000). */
+  batchSize?: number;
+}
+
+/** A line `importFile()` skipped, with the reason. */
+export interface ImportRejection {
+  line: number;
+  reason: string;
+}
+
+export interface ImportResult {
+  rowsLoaded: number;
+  rejected: ImportRejection[];
+}
+
 export interface FlightInfo {
   endpoint: string;
   ticket: Uint8Array;
@@ -25,18 +394,71 @@ export interface FlightInfo {
   totalBytes: number;
 }
 
+/**
+ * A snapshot of the database's objects (see `getDatabaseMetadata()`).
+ * Plain data, so it round-trips through JSON.
+ */
 export interface DatabaseMetadata {
   catalogs: string[];
   schemas: Array<{ catalog: string; schema: string }>;
-  tables: Array<{
-    catalog: string;
-    schema: string;
-    tableName: string;
-    tableType: string;
-  }>;
+  tables: TableSnapshot[];
+}
+
+export interface TableRef {
+  catalog: string;
+  schema: string;
+  tableName: string;
+}
+
+/** A table in a `DatabaseMetadata` snapshot; columns and keys are present when requested. */
+export interface TableSnapshot extends TableRef {
+  tableType: string;
+  columns?: ColumnMetadata[];
+  primaryKeys?: TableMetadata['primaryKeys'];
+  foreignKeys?: TableMetadata['foreignKeys'];
+}
+
+export interface DatabaseMetadataOptions {
+  /** Only this catalog (default: all). */
+  catalog?: string;
+  /** Include each table's columns (default false). */
+  includeColumns?: boolean;
+  /** Include each table's primary and foreign keys (default false). */
+  includeConstraints?: boolean;
+}
+
+/** Result of `diffMetadata(before, after)`. */
+export interface MetadataDiff {
+  addedTables: TableRef[];
+  removedTables: TableRef[];
+  changedTables: TableDiff[];
+}
+
+export interface TableDiff extends TableRef {
+  tableType?: { before: string; after: string };
+  addedColumns: string[];
+  removedColumns: string[];
+  changedColumns: ColumnChange[];
+  /** Primary key columns, in key order, when they changed. */
+  primaryKey?: { before: string[]; after: string[] };
+  /** Foreign key column pairs, e.g. `customer_id -> memory.main.customers(id)`. */
+  addedForeignKeys: string[];
+  removedForeignKeys: string[];
+}
+
+/** Column fields compared by `diffMetadata()`. */
+export type ComparedColumnField = 'typeName' | 'nullable' | 'defaultValue' | 'precision' | 'scale';
+
+export interface ColumnChange {
+  columnName: string;
+  changes: Partial<Record<ComparedColumnField, { before: unknown; after: unknown }>>;
 }
 
-export type SqlInfoValue = string | boolean | number | bigint | string[] | null;
+/**
+ * A decoded SqlInfo value: `string_list` values are `string[]` and
+ * `int32_to_int32_list_map` values (e.g. SQL_SUPPORTS_CONVERT) a Map.
+ */
+export type SqlInfoValue = string | boolean | number | bigint | string[] | Map<number, number[]> | null;
 
 export const GIZMOSQL_SQL_INFO = {
   INSTRUMENTATION_ENABLED: 10000,
@@ -44,6 +466,124 @@ export const GIZMOSQL_SQL_INFO = {
   INSTRUMENTATION_SCHEMA: 10002,
 } as const;
 
+/** An open session, from the instrumentation `sessions` table. */
+export interface SessionInfo {
+  sessionId: string;
+  /** The server instance the session is connected to. */
+  instanceId: string | null;
+  username: string | null;
+  role: string | null;
+  /** Client address. */
+  peer: string | null;
+  startTime: Date | null;
+  stopTime: Date | null;
+  /** e.g. 'active', 'closed' or 'killed'. */
+  status: string;
+}
+
+/** One execution of a statement, from the instrumentation tables. */
+export interface StatementExecution {
+  executionId: string;
+  statementId: string;
+  sessionId: string;
+  username: string | null;
+  sqlText: string;
+  startTime: Date | null;
+  endTime: Date | null;
+  /** e.g. 'executing', 'success', 'error' or 'cancelled'. */
+  status: string;
+  rowsFetched: number | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+}
+
+/** Filters for `instrumentation.getStatementHistory()`. */
+export interface StatementHistoryOptions {
+  /** Only executions started at or after this time. */
+  since?: Date;
+  /** Only executions in sessions of this user. */
+  user?: string;
+  /** Maximum number of executions returned (default 100). */
+  limit?: number;
+}
+
+export type TransactionSupport = 'none' | 'transaction' | 'savepoint';
+export type IdentifierCase = 'unknown' | 'insensitive' | 'uppercase' | 'lowercase';
+export type SqlGrammar = 'minimum' | 'core' | 'extended';
+export type IsolationLevel = 'none' | 'read_uncommitted' | 'read_committed' | 'repeatable_read' | 'serializable';
+
+/**
+ * Typed view of the server's SqlInfo, from `getServerInfo()`. Fields the
+ * server does not report are null.
+ */
+export interface ServerInfo {
+  serverName: string | null;
+  serverVersion: string | null;
+  arrowVersion: string | null;
+  readOnly: boolean | null;
+  supportsSql: boolean | null;
+  supportsSubstrait: boolean | null;
+  supportsCancel: boolean | null;
+  /** ODBC grammar levels the server supports. */
+  sqlGrammar: SqlGrammar[] | null;
+  /** Whether the server supports transactions and savepoints. */
+  transactionSupport: TransactionSupport | null;
+  transactionsSupported: boolean | null;
+  defaultIsolationLevel: IsolationLevel | null;
+  supportedIsolationLevels: IsolationLevel[] | null;
+  /** Character used to quote identifiers, e.g. '"'. */
+  identifierQuoteChar: string | null;
+  /** How unquoted identifiers are treated. */
+  identifierCase: IdentifierCase | null;
+  quotedIdentifierCase: IdentifierCase | null;
+  /** GizmoSQL session instrumentation settings. */
+  instrumentation: {
+    enabled: boolean | null;
+    catalog: string | null;
+    schema: string | null;
+  };
+}
+
+/** One column as reported by ADBC GetObjects (the XDBC column fields). */
+export interface ColumnMetadata {
+  catalogName: string;
+  schemaName: string;
+  tableName: string;
+  columnName: string;
+  /** 1-based position of the column in its table. */
+  ordinalPosition: number;
+  /** Database type name, e.g. 'INTEGER' or 'DECIMAL(18,3)'. */
+  typeName: string | null;
+  /** Whether the column accepts NULL (null when unknown). */
+  nullable: boolean | null;
+  /** Default value expression. */
+  defaultValue: string | null;
+  remarks: string | null;
+  /** Column size: precision for numeric types, maximum length for strings. */
+  precision: number | null;
+  /** Digits after the decimal point for numeric types. */
+  scale: number | null;
+}
+
+/** A table constraint as reported by ADBC GetObjects. */
+export interface ConstraintMetadata {
+  catalogName: string;
+  schemaName: string;
+  tableName: string;
+  constraintName: string | null;
+  /** 'PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE' or 'CHECK'. */
+  constraintType: string;
+  /** Constrained columns, in key order. */
+  columnNames: string[];
+  /** For FOREIGN KEY: the referenced column of each entry in `columnNames`. */
+  references: Array<{
+    catalogName: string;
+    schemaName: string;
+    tableName: string;
+    columnName: string;
+  }>;
+}
+
 export interface TableMetadata {
   primaryKeys: Array<{
     catalogName: string;
@@ -1,17 +1,21 @@
-import { AuthenticationError, ConnectionError, FlightError } from './errors';
+import { AuthenticationError, ConnectionError, FlightError, QueryCancelledError } from './errors';
+import { FlightClientConfig } from './types';
 
 export function createConnectionString(host: string, port: number, plaintext: boolean): string {
   const protocol = plaintext ? 'http' : 'https';
   return `${protocol}://${host}:${port}`;
 }
 
-export function validateConfig(config: { host: string; port: number }): void {
+export function validateConfig(config: FlightClientConfig): void {
   if (!config.host) {
     throw new FlightError('Host is required');
   }
   if (!config.port || config.port <= 0) {
     throw new FlightError('Valid port number is required');
   }
+  if (Boolean(config.tlsClientCert) !== Boolean(config.tlsClientKey)) {
+    throw new FlightError('tlsClientCert and tlsClientKey must be set together');
+  }
 }
 
 /**
@@ -31,13 +35,73 @@ export function toClientError(
   const anyErr = error as { message?: string; code?: string } | undefined;
   const detail = anyErr?.message ?? String(error);
   const code = anyErr?.code;
-  if (code === 'Unauthenticated' || code === 'Unauthorized') {
-    return new AuthenticationError(`${context}: ${detail}`);
+  if (code === 'Cancelled') {
+    return new QueryCancelledError(`${context}: ${detail}`);
   }
-  if (code === 'IO' || code === 'Timeout' || code === 'Cancelled') {
-    return new ConnectionError(`${context}: ${detail}`);
+  let err: FlightError;
+  if (code === 'Unauthenticated' || code === 'Unauthorized') {
+    err = new AuthenticationError(`${context}: ${detail}`);
+  } else if (code === 'IO' || code === 'Timeout') {
+    err = new ConnectionError(`${context}: ${detail}`);
+  } else {
+    err = new fallback(`${context}: ${detail}`);
   }
-  const err = new fallback(`${context}: ${detail}`);
   err.code = code;
   return err;
+}
+
+const READ_ONLY_KEYWORDS = new Set([
+  'SELECT',
+  'WITH',
+  'SHOW',
+  'DESCRIBE',
+  'DESC',
+  'EXPLAIN',
+  'VALUES',
+  'TABLE',
+  'FROM',
+  'SUMMARIZE',
+]);
+
+const MODIFYING_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'CREATE',
+  'DROP',
+  'ALTER',
+  'COPY',
+  'ATTACH',
+  'DETACH',
+  'INSTALL',
+  'LOAD',
+  'SET',
+  'CALL',
+  'PRAGMA',
+  'TRUNCATE',
+  'VACUUM',
+  'CHECKPOINT',
+  'EXPORT',
+  'IMPORT',
+]);
+
+/**
+ * Conservatively classifies `sql` as a single read-only statement:
+ * it must start with a query keyword (SELECT, WITH, SHOW, ...) and
+ * contain no data- or schema-modifying keyword outside literals and
+ * comments. Anything unrecognized (including unterminated literals and
+ * multiple statements) counts as not read-only.
+ */
+export function isReadOnlyQuery(sql: string): boolean {
+  const stripped = sql
+    .split(/--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'|"(?:[^"]|"")*"/)
+    .join(' ')
+    .trim()
+    .replace(/;\s*$/, '');
+  if (/[;'"]|\/\*/.test(stripped)) return false;
+  const words = stripped.toUpperCase().match(/[A-Z_]+/g) ?? [];
+  const [first] = words;
+  if (first === undefined || !READ_ONLY_KEYWORDS.has(first)) return false;
+  return !words.some((word) => MODIFYING_KEYWORDS.has(word));
 }
\ No newline at end of file
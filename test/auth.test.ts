@@ -0,0 +1,84 @@
+import { AuthSession, isUnauthenticated } from '../src/auth';
+import { AuthenticationError } from '../src/errors';
+import { FlightClientConfig } from '../src/types';
+
+const configWith = (token: FlightClientConfig['token']): FlightClientConfig => ({
+  host: 'h',
+  port: 1,
+  token,
+});
+
+describe('AuthSession', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('leaves static tokens untouched', async () => {
+    const config = configWith('t');
+    const session = new AuthSession(config);
+    expect(session.refreshable).toBe(false);
+    await expect(session.resolveConfig()).resolves.toBe(config);
+  });
+
+  it('calls a provider once and reuses its token until invalidated', async () => {
+    const provider = jest.fn().mockResolvedValueOnce('one').mockResolvedValueOnce('two');
+    const session = new AuthSession(configWith(provider));
+    expect(session.refreshable).toBe(true);
+
+    await expect(session.resolveConfig()).resolves.toMatchObject({ token: 'one' });
+    await expect(session.resolveConfig()).resolves.toMatchObject({ token: 'one' });
+    expect(session.expiring).toBe(false);
+
+    session.invalidate();
+    await expect(session.resolveConfig()).resolves.toMatchObject({ token: 'two' });
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('renews a token a minute before it expires', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const provider = jest
+      .fn()
+      .mockResolvedValueOnce({ token: 'one', expiresAt: new Date(15 * 60_000) })
+      .mockResolvedValueOnce({ token: 'two', expiresAt: 30 * 60_000 });
+    const session = new AuthSession(configWith(provider));
+    await session.resolveConfig();
+
+    jest.setSystemTime(14 * 60_000 - 1);
+    expect(session.expiring).toBe(false);
+    jest.setSystemTime(14 * 60_000);
+    expect(session.expiring).toBe(true);
+    await expect(session.resolveConfig()).resolves.toMatchObject({ token: 'two' });
+    expect(session.expiring).toBe(false);
+  });
+
+  it('renews short-lived tokens halfway through their lifetime', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const session = new AuthSession(configWith(async () => ({ token: 't', expiresAt: 10_000 })));
+    await session.resolveConfig();
+    jest.setSystemTime(4999);
+    expect(session.expiring).toBe(false);
+    jest.setSystemTime(5000);
+    expect(session.expiring).toBe(true);
+  });
+
+  it('reports provider failures as AuthenticationError and tries again next time', async () => {
+    const provider = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('vault unavailable'))
+      .mockResolvedValueOnce({ token: '' })
+      .mockResolvedValueOnce('ok');
+    const session = new AuthSession(configWith(provider));
+
+    await expect(session.resolveConfig()).rejects.toThrow(
+      new AuthenticationError('Token provider failed: vault unavailable')
+    );
+    await expect(session.resolveConfig()).rejects.toThrow('Token provider returned no token');
+    await expect(session.resolveConfig()).resolves.toMatchObject({ token: 'ok' });
+  });
+});
+
+describe('isUnauthenticated', () => {
+  it('matches the Unauthenticated status code only', () => {
+    expect(isUnauthenticated(Object.assign(new Error('expired'), { code: 'Unauthenticated' }))).toBe(true);
+    expect(isUnauthenticated(new AuthenticationError('bad password'))).toBe(false);
+    expect(isUnauthenticated(Object.assign(new Error('denied'), { code: 'Unauthorized' }))).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { CancelScope } from '../src/cancellation';
+import { QueryCancelledError, QueryTimeoutError } from '../src/errors';
+
+describe('CancelScope', () => {
+  it('is not cancellable without a signal or timeout', async () => {
+    const scope = new CancelScope();
+    expect(scope.cancellable).toBe(false);
+    await expect(scope.run(Promise.resolve(1))).resolves.toBe(1);
+    scope.dispose();
+  });
+
+  it('treats a zero timeout as disabled, overriding the default', () => {
+    expect(new CancelScope({ timeoutMs: 0 }, 1000).cancellable).toBe(false);
+    const scope = new CancelScope({}, 1000);
+    expect(scope.cancellable).toBe(true);
+    scope.dispose();
+  });
+
+  it('runs cancel hooks once and rejects pending work on abort', async () => {
+    const controller = new AbortController();
+    const scope = new CancelScope({ signal: controller.signal });
+    const hook = jest.fn();
+    scope.onCancel(hook);
+    const pending = scope.run(new Promise(() => {}));
+
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(scope.cancelled).toBe(true);
+
+    // Hooks registered after cancellation run immediately.
+    const late = jest.fn();
+    scope.onCancel(late);
+    expect(late).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with QueryTimeoutError when the timeout fires', async () => {
+    const scope = new CancelScope({ timeoutMs: 5 });
+    await expect(scope.run(new Promise(() => {}))).rejects.toBeInstanceOf(QueryTimeoutError);
+  });
+
+  it('does not fire after dispose()', async () => {
+    const scope = new CancelScope({ timeoutMs: 5 });
+    scope.dispose();
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    expect(scope.cancelled).toBe(false);
+  });
+});
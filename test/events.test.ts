@@ -0,0 +1,117 @@
+import { tableFromArrays } from 'apache-arrow';
+import { ClientEvents, attachLogger } from '../src/events';
+import { FlightSQLError } from '../src/errors';
+import { ClientEventMap, ClientEventName } from '../src/types';
+
+const collect = (events: ClientEvents) => {
+  const seen: Array<[ClientEventName, unknown]> = [];
+  for (const name of ['query:start', 'query:end', 'query:error'] as const) {
+    events.on(name, (event) => seen.push([name, event]));
+  }
+  return seen;
+};
+
+describe('ClientEvents', () => {
+  it('tracks a call from start to end with row and byte counts', () => {
+    const events = new ClientEvents();
+    const seen = collect(events);
+    const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) });
+
+    const call = events.startQuery('execute', 'SELECT id FROM t');
+    call.record(table);
+    call.end([{ id: 1 }]);
+    call.end();
+
+    expect(seen).toHaveLength(2);
+    const [[, start], [, end]] = seen as Array<[string, ClientEventMap['query:end']]>;
+    expect(start).toEqual({ id: expect.any(String), operation: 'execute', sql: 'SELECT id FROM t' });
+    expect(end).toMatchObject({ id: start!.id, operation: 'execute', rowCount: 3 });
+    expect(end!.byteCount).toBeGreaterThan(0);
+    expect(end!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('counts plain results when no Arrow data was recorded', () => {
+    const events = new ClientEvents();
+    const seen = collect(events);
+    events.startQuery('getCatalogs').end(['memory', 'system']);
+    events.startQuery('ingest').end(42);
+
+    expect(seen.filter(([name]) => name === 'query:end').map(([, event]) => event)).toEqual([
+      expect.objectContaining({ operation: 'getCatalogs', rowCount: 2 }),
+      expect.objectContaining({ operation: 'ingest', rowCount: 42 }),
+    ]);
+    expect(seen[0]![1] as object).not.toHaveProperty('sql');
+  });
+
+  it('reports failures with the mapped error code', () => {
+    const events = new ClientEvents();
+    const seen = collect(events);
+    const error = new FlightSQLError('Failed to execute query: boom', undefined, 'IO');
+
+    const call = events.startQuery('execute', 'SELECT 1');
+    call.fail(error);
+    call.end();
+
+    expect(seen.map(([name]) => name)).toEqual(['query:start', 'query:error']);
+    expect(seen[1]![1]).toMatchObject({ operation: 'execute', error, code: 'IO' });
+  });
+
+  it('redacts SQL and isolates listener failures', () => {
+    const events = new ClientEvents((sql) => sql.split(/'[^']*'/).join('?'));
+    const listener = jest.fn();
+    events.on('query:start', () => {
+      throw new Error('listener bug');
+    });
+    events.on('query:start', listener);
+
+    events.startQuery('execute', "SELECT * FROM users WHERE email = 'a@b.c'");
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ sql: 'SELECT * FROM users WHERE email = ?' }),
+    );
+
+    events.off('query:start', listener);
+    events.startQuery('execute', 'SELECT 1');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('attachLogger', () => {
+  const fakeLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+  it('logs connects, slow queries and failures at their levels', () => {
+    const events = new ClientEvents();
+    const logger = fakeLogger();
+    attachLogger(events, logger, { slowQueryMs: 0 });
+
+    events.emit('connect', { host: 'h', port: 1, durationMs: 5 });
+    events.startQuery('execute', 'SELECT 1').end();
+    events.startQuery('execute', 'SELECT 2').fail(new FlightSQLError('boom', undefined, 'IO'));
+
+    expect(logger.info).toHaveBeenCalledWith(
+      { event: 'connect', host: 'h', port: 1, durationMs: 5 },
+      'Connected to GizmoSQL',
+    );
+    expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ sql: 'SELECT 1' }), 'Slow query');
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'query:error', sql: 'SELECT 2', code: 'IO', error: 'boom' }),
+      'Query failed',
+    );
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+
+  it('logs fast queries at debug level and detaches', () => {
+    const events = new ClientEvents();
+    const logger = fakeLogger();
+    const detach = attachLogger(events, logger, { slowQueryMs: 60_000, logQueryStart: true });
+
+    events.startQuery('getTables').end([]);
+    expect(logger.debug.mock.calls.map(([, message]) => message)).toEqual([
+      'Query started',
+      'Query finished',
+    ]);
+
+    detach();
+    events.startQuery('getTables').end([]);
+    expect(logger.debug).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PassThrough, Writable } from 'node:stream';
+import { Table, tableFromArrays, tableFromIPC } from 'apache-arrow';
+import { checkExportFormat, writeExport } from '../src/export';
+import { FlightSQLError } from '../src/errors';
+import { ExportOptions, RecordBatchStream } from '../src/types';
+
+const streamOf = (table: Table): RecordBatchStream => ({
+  schema: table.schema,
+  async *[Symbol.asyncIterator]() {
+    yield* table.batches;
+  },
+  close: async () => {},
+});
+
+const exportToBuffer = async (table: Table, options: ExportOptions) => {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const rows = await writeExport(streamOf(table), out, options);
+  return { rows, output: Buffer.concat(chunks), out };
+};
+
+const data = tableFromArrays({
+  id: BigInt64Array.from([1n, 2n, 3n]),
+  note: ['plain', 'has, comma and "quotes"', null],
+  empty: ['', 'x\ny', 'z'],
+});
+
+describe('writeExport', () => {
+  it('writes RFC 4180 CSV with a header', async () => {
+    const { rows, output, out } = await exportToBuffer(data, { format: 'csv' });
+    expect(rows).toBe(3);
+    expect(output.toString()).toBe(
+      'id,note,empty\n' + '1,plain,""\n' + '2,"has, comma and ""quotes""","x\ny"\n' + '3,,z\n'
+    );
+    expect(out.writableEnded).toBe(false);
+  });
+
+  it('honours delimiter, header and nullText', async () => {
+    const { output } = await exportToBuffer(data, {
+      format: 'csv',
+      delimiter: ';',
+      header: false,
+      nullText: 'NULL',
+    });
+    expect(output.toString()).toBe(
+      '1;plain;\n' + '2;"has, comma and ""quotes""";"x\ny"\n' + '3;NULL;z\n'
+    );
+  });
+
+  it('writes one JSON object per line', async () => {
+    const { output } = await exportToBuffer(data, { format: 'ndjson' });
+    expect(output.toString().trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+      { id: '1', note: 'plain', empty: '' },
+      { id: '2', note: 'has, comma and "quotes"', empty: 'x\ny' },
+      { id: '3', note: null, empty: 'z' },
+    ]);
+  });
+
+  it.each(['arrow-ipc-file', 'arrow-ipc-stream'] as const)('writes %s readable by apache-arrow', async (format) => {
+    const { rows, output } = await exportToBuffer(data, { format });
+    expect(rows).toBe(3);
+    const back = tableFromIPC(output);
+    expect(back.numRows).toBe(3);
+    expect(back.schema.fields.map((f) => f.name)).toEqual(['id', 'note', 'empty']);
+  });
+
+  it('writes the schema for empty results', async () => {
+    const empty = new Table(data.schema);
+    expect(tableFromIPC((await exportToBuffer(empty, { format: 'arrow-ipc-file' })).output).numRows).toBe(0);
+    expect((await exportToBuffer(empty, { format: 'csv' })).output.toString()).toBe('id,note,empty\n');
+  });
+
+  it('creates and closes files given a path', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'gizmosql-export-'));
+    try {
+      const file = path.join(dir, 'out.ndjson');
+      await expect(writeExport(streamOf(data), file, { format: 'ndjson' })).resolves.toBe(3);
+      expect(readFileSync(file, 'utf8').split('\n')).toHaveLength(4);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('waits for a slow destination between IPC batches', async () => {
+    const batch = tableFromArrays({ v: new Int32Array(16_384) }).batches[0];
+    const batchBytes = 16_384 * 4;
+    let consumed = 0;
+    const slow = new Writable({
+      highWaterMark: batchBytes,
+      write: (chunk: Buffer, _encoding, callback) =>
+        setTimeout(() => {
+          consumed += chunk.length;
+          callback();
+        }, 1),
+    });
+    let produced = 0;
+    let peak = 0;
+    const stream: RecordBatchStream = {
+      schema: batch.schema,
+      async *[Symbol.asyncIterator]() {
+        for (let i = 0; i < 50; i++) {
+          peak = Math.max(peak, produced - consumed);
+          produced += batchBytes;
+          yield batch;
+        }
+      },
+      close: async () => {},
+    };
+    await expect(writeExport(stream, slow, { format: 'arrow-ipc-stream' })).resolves.toBe(50 * 16_384);
+    expect(peak).toBeLessThan(3 * batchBytes);
+  });
+
+  it('surfaces destination errors', async () => {
+    const broken = new Writable({
+      write: (_chunk, _encoding, callback) => callback(new Error('disk full')),
+    });
+    await expect(writeExport(streamOf(data), broken, { format: 'arrow-ipc-stream' })).rejects.toThrow(
+      'disk full'
+    );
+  });
+});
+
+describe('checkExportFormat', () => {
+  it('rejects unknown formats', () => {
+    expect(() => checkExportFormat('xlsx')).toThrow(FlightSQLError);
+    expect(() => checkExportFormat('csv')).not.toThrow();
+  });
+});
@@ -1,88 +1,1064 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Writable } from 'node:stream';
+import { tableFromArrays } from 'apache-arrow';
+import { ObjectDepth } from '@apache-arrow/adbc-driver-manager';
+import * as connection from '../src/connection';
 import { FlightSQLClient } from '../src/flightsql-client';
-import { FlightError, FlightSQLError } from '../src/errors';
+import {
+  AuthenticationError,
+  ConnectionError,
+  FlightError,
+  FlightSQLError,
+  QueryCancelledError,
+  QueryTimeoutError,
+} from '../src/errors';
+import { SqlInfo } from '../src/sql-info';
+import { FlightSQLClientConfig } from '../src/types';
+import {
+  asAny,
+  clientWith,
+  fakeConn,
+  fakeConnWith,
+  fakeReader,
+  fakeStatement,
+  reconnectingClient,
+  resultData,
+} from './helpers';
 
-// Unit tests for the 2.0 ADBC-backed client: config mapping and the
-// client-side lifecycle logic. Server-facing behavior is covered by the
+// Unit tests for the 2.0 ADBC-backed client: the client-side lifecycle
+// logic (config mapping is covered in connection.test.ts). Server-facing behavior is covered by the
 // integration suite (test/integration) against a live GizmoSQL server.
 
-// Access private members for mapping assertions without a live driver.
-const asAny = (c: FlightSQLClient) => c as any;
+describe('FlightSQLClient construction', () => {
+  it('rejects invalid configs at construction', () => {
+    expect(() => new FlightSQLClient({ host: '', port: 31337 })).toThrow(FlightError);
+    expect(() => new FlightSQLClient({ host: 'h', port: 0 })).toThrow(FlightError);
+  });
+});
+
+describe('prepared statement lifecycle', () => {
+  // The driver cannot describe the result up front, so it comes from the first execution.
+  const preparedStatement = (parameterSchema: unknown) =>
+    fakeStatement({
+      getParameterSchema: jest.fn().mockResolvedValue(parameterSchema),
+      executeSchema: jest.fn().mockRejectedValue(new Error('NotImplemented')),
+    });
+
+  it('prepares once on the server and reuses the statement for every execution', async () => {
+    const statement = preparedStatement({ fields: [] });
+    const { client, conn } = clientWith(fakeConnWith(statement));
+
+    const prepared = await client.prepare('SELECT 1 AS v');
+    expect(prepared.handle).toBeInstanceOf(Uint8Array);
+    expect(prepared.handle.length).toBeGreaterThan(0);
+    expect(prepared.parameterSchema).toEqual({ fields: [] });
+    expect(statement.setSqlQuery).toHaveBeenCalledWith('SELECT 1 AS v');
+    expect(statement.prepare).toHaveBeenCalledTimes(1);
+
+    const rows = await client.executePrepared(prepared);
+    expect(rows.map((row) => row.toJSON())).toEqual([{ v: 1 }]);
+    await client.executePrepared(prepared);
+    expect(conn.createStatement).toHaveBeenCalledTimes(1);
+    expect(statement.executeQuery).toHaveBeenCalledTimes(2);
+    expect(statement.bind).not.toHaveBeenCalled();
+    expect(statement.close).not.toHaveBeenCalled();
+    expect(prepared.resultSchema).toBe(resultData.schema);
+  });
+
+  it('closePrepared releases the statement and invalidates the handle', async () => {
+    const statement = preparedStatement({ fields: [] });
+    const { client } = clientWith(fakeConnWith(statement));
+
+    const prepared = await client.prepare('SELECT 1');
+    await client.closePrepared(prepared);
+    expect(statement.close).toHaveBeenCalledTimes(1);
+    await expect(client.executePrepared(prepared)).rejects.toThrow(FlightSQLError);
+  });
 
-describe('FlightSQLClient config mapping', () => {
-  it('builds a TLS-by-default gizmosql:// URI', () => {
-    const client = new FlightSQLClient({ host: 'db.example.com', port: 31337 });
-    expect(asAny(client).uri()).toBe('gizmosql://db.example.com:31337');
+  it('close() releases every open prepared statement', async () => {
+    const statement = preparedStatement({ fields: [] });
+    const { client, conn } = clientWith(fakeConnWith(statement));
+
+    await client.prepare('SELECT 1');
+    await client.close();
+    expect(statement.close).toHaveBeenCalledTimes(1);
+    expect(conn.close).toHaveBeenCalledTimes(1);
   });
 
-  it('appends transport=tcp for plaintext', () => {
-    const client = new FlightSQLClient({ host: 'localhost', port: 31337, plaintext: true });
-    expect(asAny(client).uri()).toBe('gizmosql://localhost:31337?transport=tcp');
+  it('closes the native statement when preparing fails', async () => {
+    const statement = preparedStatement({ fields: [] });
+    statement.prepare.mockRejectedValue(Object.assign(new Error('syntax'), { code: 'InvalidArguments' }));
+    const { client } = clientWith(fakeConnWith(statement));
+
+    await expect(client.prepare('SELEC 1')).rejects.toThrow('Failed to prepare statement: syntax');
+    expect(statement.close).toHaveBeenCalledTimes(1);
   });
 
-  it('maps username/password to driver options', () => {
-    const client = new FlightSQLClient({
-      host: 'h', port: 1, username: 'u', password: 'p',
+  it('executePrepared binds parameters and rejects a wrong argument count', async () => {
+    const statement = preparedStatement({ fields: [{}, {}] });
+    const { client } = clientWith(fakeConnWith(statement));
+
+    const prepared = await client.prepare('SELECT * FROM t WHERE a = ? AND b = ?');
+    await client.executePrepared(prepared, [1, 'x']);
+    expect(statement.bind).toHaveBeenCalledTimes(1);
+    expect(statement.bind.mock.calls[0][0].numRows).toBe(1);
+
+    await expect(client.executePrepared(prepared, [1])).rejects.toThrow(
+      'expects 2 parameter(s) but 1 were supplied'
+    );
+    expect(statement.executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('serializes concurrent executions of one statement', async () => {
+    const statement = preparedStatement({ fields: [] });
+    let active = 0;
+    let maxActive = 0;
+    statement.executeQuery.mockImplementation(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { schema: resultData.schema, async *[Symbol.asyncIterator]() {} };
     });
-    expect(asAny(client).databaseOptions()).toEqual({
-      uri: 'gizmosql://h:1',
-      username: 'u',
-      password: 'p',
+    const { client } = clientWith(fakeConnWith(statement));
+
+    const prepared = await client.prepare('SELECT 1');
+    await Promise.all([client.executePrepared(prepared), client.executePrepared(prepared)]);
+    expect(maxActive).toBe(1);
+  });
+});
+
+describe('execute with parameters', () => {
+  it('binds a parameter batch through an ADBC statement', async () => {
+    const statement = fakeStatement();
+    const { client, conn } = clientWith(fakeConnWith(statement));
+
+    const table = await client.execute('SELECT ? AS a, $2 AS b', [42, 'x']);
+    expect(table.numRows).toBe(1);
+    expect(conn.query).not.toHaveBeenCalled();
+    expect(statement.setSqlQuery).toHaveBeenCalledWith('SELECT ? AS a, $2 AS b');
+    const bound = statement.bind.mock.calls[0][0];
+    expect(bound.numRows).toBe(1);
+    expect(bound.schema.fields.map((f: any) => f.name)).toEqual(['p1', 'p2']);
+    expect(statement.close).toHaveBeenCalled();
+  });
+
+  it('keeps the plain query path when there are no parameters', async () => {
+    const { client, conn } = clientWith(fakeConn({ query: jest.fn().mockResolvedValue('table') }));
+
+    await expect(client.execute('SELECT 1', [])).resolves.toBe('table');
+    expect(conn.createStatement).not.toHaveBeenCalled();
+  });
+});
+
+describe('rowMode: objects', () => {
+  const data = tableFromArrays({ id: BigInt64Array.from([7n]), name: ['x'] });
+
+  it('execute() returns plain converted rows', async () => {
+    const { client } = clientWith(fakeConn({ query: jest.fn().mockResolvedValue(data) }));
+
+    await expect(client.execute('SELECT 1', { rowMode: 'objects' })).resolves.toEqual([
+      { id: '7', name: 'x' },
+    ]);
+    await expect(client.execute('SELECT 1', { rowMode: 'objects', bigint: 'number' })).resolves.toEqual([
+      { id: 7, name: 'x' },
+    ]);
+  });
+
+  it('executePrepared() returns plain converted rows', async () => {
+    const statement = fakeStatement({
+      executeSchema: jest.fn().mockResolvedValue(data.schema),
+      executeQuery: jest.fn().mockResolvedValue(fakeReader(data)),
     });
+    const { client } = clientWith(fakeConnWith(statement));
+
+    const prepared = await client.prepare('SELECT 1');
+    await expect(client.executePrepared(prepared, { rowMode: 'objects', bigint: 'bigint' })).resolves.toEqual([
+      { id: 7n, name: 'x' },
+    ]);
+  });
+});
+
+describe('executeStream', () => {
+  const scriptedReader = (batches: unknown[], failAfter?: number) => {
+    const reader = {
+      schema: { fields: [] },
+      cancel: jest.fn(),
+      async *[Symbol.asyncIterator]() {
+        for (const [idx, batch] of batches.entries()) {
+          if (idx === failAfter) {
+            throw Object.assign(new Error('stream reset'), { code: 'Internal' });
+          }
+          yield batch;
+        }
+      },
+    };
+    return reader;
+  };
+
+  const streamFrom = (reader: unknown, query = 'SELECT 1') =>
+    clientWith(fakeConn({ queryStream: jest.fn().mockResolvedValue(reader) })).client.executeStream(query);
+
+  it('exposes the schema up front and yields every batch', async () => {
+    const reader = scriptedReader(['b1', 'b2']);
+    const stream = await streamFrom(reader);
+    expect(stream.schema).toBe(reader.schema);
+
+    const seen: unknown[] = [];
+    for await (const batch of stream) seen.push(batch);
+    expect(seen).toEqual(['b1', 'b2']);
+    expect(reader.cancel).not.toHaveBeenCalled();
+  });
+
+  it('cancels the reader when the consumer breaks early', async () => {
+    const reader = scriptedReader(['b1', 'b2', 'b3']);
+    const stream = await streamFrom(reader);
+    for await (const batch of stream) {
+      expect(batch).toBe('b1');
+      break;
+    }
+    expect(reader.cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps mid-stream failures to FlightSQLError', async () => {
+    const reader = scriptedReader(['b1', 'b2'], 1);
+    const stream = await streamFrom(reader);
+    const consume = async () => {
+      for await (const _ of stream) {
+        // drain
+      }
+    };
+    await expect(consume()).rejects.toThrow(FlightSQLError);
+    await expect(consume()).rejects.toThrow('Failed to read query results: stream reset');
   });
+});
+
+describe('ingest', () => {
+  const data = tableFromArrays({ id: Int32Array.from([1, 2, 3]) });
 
-  it('maps token auth to a Bearer authorization header option', () => {
-    const client = new FlightSQLClient({ host: 'h', port: 1, token: 'jwt-abc' });
-    expect(asAny(client).databaseOptions()).toEqual({
-      uri: 'gizmosql://h:1',
-      'adbc.flight.sql.authorization_header': 'Bearer jwt-abc',
+  it('ingests a Table in one call with the mapped mode and target', async () => {
+    const { client, conn } = clientWith();
+    const rows = await client.ingest('orders', data, {
+      mode: 'replace',
+      catalog: 'memory',
+      dbSchema: 'main',
+      temporary: true,
     });
+    expect(rows).toBe(3);
+    expect(conn.ingest).toHaveBeenCalledWith('orders', data, {
+      mode: 'adbc.ingest.mode.replace',
+      catalog: 'memory',
+      dbSchema: 'main',
+      temporary: true,
+    });
+  });
+
+  it('defaults to create mode', async () => {
+    const { client, conn } = clientWith();
+    await client.ingest('orders', data);
+    expect(conn.ingest.mock.calls[0][2].mode).toBe('adbc.ingest.mode.create');
+  });
+
+  it('streams batch iterables, appending after the first batch', async () => {
+    const { client, conn } = clientWith();
+    const batches = [...data.batches, ...data.batches];
+    async function* source() {
+      yield* batches;
+    }
+    const rows = await client.ingest('orders', source(), { mode: 'create_append' });
+    expect(rows).toBe(6);
+    expect(conn.ingest.mock.calls.map((call: any[]) => call[2].mode)).toEqual([
+      'adbc.ingest.mode.create_append',
+      'adbc.ingest.mode.append',
+    ]);
+  });
+
+  it('rejects unknown modes and maps driver failures', async () => {
+    const { client, conn } = clientWith();
+    await expect(client.ingest('orders', data, { mode: 'upsert' as any })).rejects.toThrow(
+      'Unknown ingest mode: upsert'
+    );
+    conn.ingest.mockRejectedValue(Object.assign(new Error('exists'), { code: 'AlreadyExists' }));
+    const err = await client.ingest('orders', data).catch((error) => error);
+    expect(err).toBeInstanceOf(FlightSQLError);
+    expect(err.message).toBe('Failed to ingest into orders: exists');
+    expect(err.code).toBe('AlreadyExists');
+  });
+});
+
+describe('transactions', () => {
+  it('begin/commit toggles autocommit around the transaction', async () => {
+    const { client, conn } = clientWith();
+    await client.beginTransaction();
+    await client.commit();
+    expect(conn.setOption.mock.calls).toEqual([
+      ['adbc.connection.autocommit', 'false'],
+      ['adbc.connection.autocommit', 'true'],
+    ]);
+    expect(conn.commit).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects commit/rollback without an active transaction', async () => {
+    const { client } = clientWith();
+    await expect(client.commit()).rejects.toThrow('No active transaction to commit');
+    await expect(client.rollback()).rejects.toThrow('No active transaction to roll back');
   });
 
-  it('token takes precedence over username/password', () => {
-    const client = new FlightSQLClient({
-      host: 'h', port: 1, token: 't', username: 'u', password: 'p',
+  it('allows commit at any time when autocommit is disabled in the config', async () => {
+    const { client, conn } = clientWith(fakeConn(), { autocommit: false });
+    await asAny(client).ensureConn();
+    await client.commit();
+    expect(conn.commit).toHaveBeenCalledTimes(1);
+    expect(conn.setOption).not.toHaveBeenCalled();
+  });
+
+  it('withTransaction commits on success', async () => {
+    const { client, conn } = clientWith();
+    const result = await client.withTransaction(async (tx) => {
+      expect(tx).toBe(client);
+      return 'done';
     });
-    const options = asAny(client).databaseOptions();
-    expect(options['adbc.flight.sql.authorization_header']).toBe('Bearer t');
-    expect(options.username).toBeUndefined();
+    expect(result).toBe('done');
+    expect(conn.commit).toHaveBeenCalledTimes(1);
+    expect(conn.rollback).not.toHaveBeenCalled();
   });
 
-  it('maps tlsSkipVerify to the Flight SQL client option', () => {
-    const client = new FlightSQLClient({ host: 'h', port: 1, tlsSkipVerify: true });
-    expect(asAny(client).databaseOptions()['adbc.flight.sql.client_option.tls_skip_verify'])
-      .toBe('true');
+  it('withTransaction rolls back and rethrows when the callback throws', async () => {
+    const { client, conn } = clientWith();
+    await expect(
+      client.withTransaction(async () => {
+        throw new Error('step 2 failed');
+      })
+    ).rejects.toThrow('step 2 failed');
+    expect(conn.rollback).toHaveBeenCalledTimes(1);
+    expect(conn.commit).not.toHaveBeenCalled();
+    // The client is usable for a new transaction afterwards.
+    await expect(client.beginTransaction()).resolves.toBeUndefined();
   });
 
-  it('rejects invalid configs at construction', () => {
-    expect(() => new FlightSQLClient({ host: '', port: 31337 })).toThrow(FlightError);
-    expect(() => new FlightSQLClient({ host: 'h', port: 0 })).toThrow(FlightError);
+  it('ends the transaction when commit fails', async () => {
+    const { client, conn } = clientWith();
+    conn.commit.mockRejectedValue(Object.assign(new Error('conflict'), { code: 'IO' }));
+    await expect(client.withTransaction(async () => 1)).rejects.toThrow('conflict');
+    expect(conn.rollback).toHaveBeenCalledTimes(1);
+    expect(conn.setOption).toHaveBeenLastCalledWith('adbc.connection.autocommit', 'true');
+    // The client is usable for a new transaction afterwards.
+    conn.commit.mockResolvedValue(undefined);
+    await expect(client.withTransaction(async () => 2)).resolves.toBe(2);
+  });
+
+  it('withTransaction rejects nested use', async () => {
+    const { client, conn } = clientWith();
+    await expect(
+      client.withTransaction(async (tx) => tx.withTransaction(async () => 1))
+    ).rejects.toThrow(new FlightSQLError('Nested transactions are not supported'));
+    expect(conn.rollback).toHaveBeenCalledTimes(1);
   });
 });
 
-describe('prepared statement lifecycle (client-side)', () => {
-  it('prepare returns an opaque handle and executePrepared runs the SQL', async () => {
-    const client = new FlightSQLClient({ host: 'h', port: 1 });
-    // Stub out connection + execution — lifecycle logic only.
-    asAny(client).ensureConn = jest.fn().mockResolvedValue({});
-    const fakeTable = { toArray: () => [{ v: 1 }] };
-    client.execute = jest.fn().mockResolvedValue(fakeTable) as any;
+describe('query cancellation', () => {
+  const never = () => new Promise<never>(() => {});
+
+  const hangingClient = (config: Partial<FlightSQLClientConfig> = {}) => {
+    const statement = fakeStatement({ executeQuery: jest.fn().mockImplementation(never) });
+    return { ...clientWith(fakeConnWith(statement), config), statement };
+  };
+
+  it('aborting cancels the statement and rejects with QueryCancelledError', async () => {
+    const { client, conn, statement } = hangingClient();
+    const controller = new AbortController();
+    const pending = client.execute('SELECT slow()', { signal: controller.signal });
+    await new Promise((resolve) => setImmediate(resolve));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(statement.cancel).toHaveBeenCalledTimes(1);
+    expect(conn.query).not.toHaveBeenCalled();
+  });
+
+  it('rejects immediately for an already-aborted signal', async () => {
+    const { client, statement } = hangingClient();
+    const err = await client
+      .execute('SELECT 1', [1], { signal: AbortSignal.abort() })
+      .catch((error) => error);
+    expect(err).toBeInstanceOf(QueryCancelledError);
+    expect(err.code).toBe('Cancelled');
+    expect(statement.executeQuery).not.toHaveBeenCalled();
+  });
+
+  it('times out with QueryTimeoutError using the per-call timeout', async () => {
+    const { client, statement } = hangingClient();
+    const err = await client.execute('SELECT slow()', { timeoutMs: 10 }).catch((error) => error);
+    expect(err).toBeInstanceOf(QueryTimeoutError);
+    expect(err.message).toBe('Query timed out after 10ms');
+    expect(statement.cancel).toHaveBeenCalled();
+  });
+
+  it('applies defaultQueryTimeoutMs unless the call overrides it', async () => {
+    const { client, conn } = hangingClient({ defaultQueryTimeoutMs: 10 });
+    await expect(client.execute('SELECT slow()')).rejects.toBeInstanceOf(QueryTimeoutError);
+
+    // timeoutMs: 0 disables the default, so the plain query path is used.
+    conn.query.mockResolvedValue('table');
+    await expect(client.execute('SELECT 1', { timeoutMs: 0 })).resolves.toBe('table');
+  });
+
+  it('aborting mid-stream cancels the reader and ends iteration with QueryCancelledError', async () => {
+    const { client, statement } = hangingClient();
+    const data = tableFromArrays({ a: [1] });
+    const reader = {
+      schema: data.schema,
+      cancel: jest.fn(),
+      [Symbol.asyncIterator]() {
+        let sent = false;
+        return {
+          next: () => {
+            if (sent) return never();
+            sent = true;
+            return Promise.resolve({ done: false, value: data.batches[0] });
+          },
+        };
+      },
+    };
+    statement.executeQuery.mockResolvedValue(reader);
+    const controller = new AbortController();
+    const stream = await client.executeStream('SELECT 1', { signal: controller.signal });
+
+    const consume = async () => {
+      for await (const _ of stream) {
+        controller.abort();
+      }
+    };
+    await expect(consume()).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(reader.cancel).toHaveBeenCalled();
+    expect(statement.close).toHaveBeenCalled();
+  });
+});
+
+describe('retry and reconnect', () => {
+  const ioError = () => Object.assign(new Error('connection reset'), { code: 'IO' });
+
+  // Opened up front so a test can script a connection before the client reaches it.
+  const retryingClient = (config: Partial<FlightSQLClientConfig> = {}) => {
+    const conns = [fakeConn(), fakeConn(), fakeConn()];
+    const { client } = reconnectingClient((_client, index) => conns[index]!, {
+      retry: { initialDelayMs: 1 },
+      ...config,
+    });
+    return { client, conns };
+  };
+
+  it('reconnects and retries read-only queries after a transient failure', async () => {
+    const { client, conns } = retryingClient();
+    conns[0].query.mockRejectedValue(ioError());
+
+    await expect(client.execute('SELECT 1 AS v')).resolves.toBe(resultData);
+    expect(conns[0].close).toHaveBeenCalled();
+    expect(conns[1].query).toHaveBeenCalledWith('SELECT 1 AS v');
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const { client, conns } = retryingClient({ retry: { maxAttempts: 2, initialDelayMs: 1 } });
+    for (const conn of conns) conn.query.mockRejectedValue(ioError());
+
+    const err = await client.execute('SELECT 1').catch((error) => error);
+    expect(err).toBeInstanceOf(ConnectionError);
+    expect(err.code).toBe('IO');
+    expect(conns[2].query).not.toHaveBeenCalled();
+  });
+
+  it('only retries writes that opt in, but always reconnects on the next call', async () => {
+    const { client, conns } = retryingClient();
+    conns[0].query.mockRejectedValue(ioError());
+
+    await expect(client.execute('INSERT INTO t VALUES (1)')).rejects.toBeInstanceOf(ConnectionError);
+    expect(conns[1].query).not.toHaveBeenCalled();
+
+    conns[1].query.mockRejectedValueOnce(ioError());
+    await expect(client.execute('INSERT INTO t VALUES (1)', { retry: true })).resolves.toBe(resultData);
+    expect(conns[2].query).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry non-transient errors or calls inside a transaction', async () => {
+    const { client, conns } = retryingClient();
+    conns[0].query.mockRejectedValueOnce(Object.assign(new Error('syntax'), { code: 'InvalidArguments' }));
+    await expect(client.execute('SELECT oops')).rejects.toBeInstanceOf(FlightSQLError);
+
+    asAny(client).inTransaction = true;
+    conns[0].query.mockRejectedValueOnce(ioError());
+    await expect(client.execute('SELECT 1')).rejects.toBeInstanceOf(ConnectionError);
+    expect(conns[0].close).not.toHaveBeenCalled();
+    expect(conns[1].query).not.toHaveBeenCalled();
+  });
+
+  it('opens one database and connection for concurrent calls after a drop', async () => {
+    const dbs: Array<{ connect: jest.Mock; close: jest.Mock }> = [];
+    const openDatabase = jest.spyOn(connection, 'openDatabase').mockImplementation(() => {
+      const db = {
+        connect: jest.fn(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return fakeConn();
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      dbs.push(db);
+      return db as any;
+    });
+    try {
+      const client = new FlightSQLClient({ host: 'h', port: 1 });
+      await client.connect();
+      await asAny(client).dropConnection();
 
+      await Promise.all([client.execute('SELECT 1'), client.execute('SELECT 2'), client.execute('SELECT 3')]);
+      expect(dbs).toHaveLength(2);
+      expect(dbs[1]!.connect).toHaveBeenCalledTimes(1);
+      expect(await dbs[1]!.connect.mock.results[0]!.value).toBe(asAny(client).conn);
+    } finally {
+      openDatabase.mockRestore();
+    }
+  });
+
+  it('re-prepares prepared statements on the new connection', async () => {
+    const { client, conns } = retryingClient();
     const prepared = await client.prepare('SELECT 1 AS v');
-    expect(prepared.handle).toBeInstanceOf(Uint8Array);
-    expect(prepared.handle.length).toBeGreaterThan(0);
+    const first = await conns[0].createStatement.mock.results[0].value;
+    first.executeQuery.mockRejectedValue(ioError());
 
     const rows = await client.executePrepared(prepared);
-    expect(client.execute).toHaveBeenCalledWith('SELECT 1 AS v');
-    expect(rows).toEqual([{ v: 1 }]);
+    expect(rows.map((row: any) => row.toJSON())).toEqual([{ v: 1 }]);
+    expect(first.close).toHaveBeenCalled();
+    expect(conns[1].createStatement).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('token provider', () => {
+  const unauthenticated = () => Object.assign(new Error('token expired'), { code: 'Unauthenticated' });
+
+  // Each (re)connect records the token it would send.
+  const tokenClient = (token: FlightSQLClientConfig['token']) =>
+    reconnectingClient(
+      async (client) => {
+        const { token: current } = await asAny(client).auth.resolveConfig();
+        return fakeConn({ token: current as string | undefined });
+      },
+      { token }
+    );
+
+  it('refreshes the token and retries once when a call is rejected as Unauthenticated', async () => {
+    const provider = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+    const { client, conns } = tokenClient(provider);
+    await client.connect();
+    conns[0].query.mockRejectedValueOnce(unauthenticated());
+
+    await expect(client.execute('SELECT 1')).resolves.toBe(resultData);
+    expect(conns.map((conn) => conn.token)).toEqual(['old', 'new']);
+    expect(conns[0].close).toHaveBeenCalled();
+  });
+
+  it('does not repeat a write, but sends the next call with a fresh token', async () => {
+    const provider = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+    const { client, conns } = tokenClient(provider);
+    await client.connect();
+    conns[0].query.mockRejectedValueOnce(unauthenticated());
+
+    await expect(client.execute('INSERT INTO t VALUES (1)')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(conns[0].query).toHaveBeenCalledTimes(1);
+    await expect(client.execute('INSERT INTO t VALUES (1)')).resolves.toBe(resultData);
+    expect(conns.map((conn) => conn.token)).toEqual(['old', 'new']);
+  });
+
+  it('does not repeat a query marked retry: false', async () => {
+    const { client, conns } = tokenClient(jest.fn().mockResolvedValue('t'));
+    await client.connect();
+    conns[0].query.mockRejectedValueOnce(unauthenticated());
+
+    await expect(client.execute('SELECT 1', { retry: false })).rejects.toBeInstanceOf(AuthenticationError);
+    expect(conns[0].query).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not re-read an ingest source after the first batch was sent', async () => {
+    const { client, conns } = tokenClient(jest.fn().mockResolvedValue('t'));
+    await client.connect();
+    conns[0].ingest.mockRejectedValue(unauthenticated());
+    let reads = 0;
+    async function* batches() {
+      reads++;
+      yield* resultData.batches;
+    }
+
+    await expect(client.ingest('t', batches())).rejects.toBeInstanceOf(AuthenticationError);
+    expect(reads).toBe(1);
+    expect(conns[0].ingest).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up when the fresh token is rejected too', async () => {
+    const { client, conns } = tokenClient(jest.fn().mockResolvedValue('t'));
+    await client.connect();
+    conns[0].query.mockRejectedValue(unauthenticated());
+    asAny(client).connect.mockImplementationOnce(async () => {
+      asAny(client).conn = conns[0];
+    });
+
+    await expect(client.execute('SELECT 1')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(conns[0].query).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry Unauthenticated with a static token', async () => {
+    const { client, conns } = tokenClient('static');
+    await client.connect();
+    conns[0].query.mockRejectedValueOnce(unauthenticated());
+
+    await expect(client.execute('SELECT 1')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(conns).toHaveLength(1);
+  });
+
+  it('reconnects with a fresh token before the current one expires', async () => {
+    let issued = 0;
+    const provider = jest.fn(async () => ({
+      token: `t${++issued}`,
+      expiresAt: Date.now() + (issued === 1 ? 1000 : 3_600_000),
+    }));
+    const { client, conns } = tokenClient(provider);
+    await client.connect();
+    await new Promise((resolve) => setTimeout(resolve, 520));
+
+    await client.execute('SELECT 1');
+    expect(conns.map((conn) => conn.token)).toEqual(['t1', 't2']);
+    expect(conns[0].close).toHaveBeenCalled();
+    expect(conns[1].query).toHaveBeenCalledWith('SELECT 1');
+  });
+});
+
+describe('exportQuery', () => {
+  it('rejects unsupported formats before running the query', async () => {
+    const { client } = clientWith();
+
+    await expect(client.exportQuery('SELECT 1', '/tmp/x', { format: 'xlsx' as any })).rejects.toThrow(
+      FlightSQLError
+    );
+    expect(asAny(client).ensureConn).not.toHaveBeenCalled();
+  });
+
+  it('streams the query result into the destination', async () => {
+    const data = tableFromArrays({ a: Int32Array.from([1, 2]) });
+    const { client } = clientWith(fakeConn({ queryStream: jest.fn().mockResolvedValue(fakeReader(data)) }));
+    const chunks: string[] = [];
+    const out = new Writable({
+      write: (chunk, _encoding, callback) => {
+        chunks.push(chunk.toString());
+        callback();
+      },
+    });
+
+    await expect(client.exportQuery('SELECT a', out, { format: 'csv' })).resolves.toBe(2);
+    expect(chunks.join('')).toBe('a\n1\n2\n');
+  });
+
+  it('releases the query when writing the header fails', async () => {
+    const reader = fakeReader();
+    const statement = fakeStatement({ executeQuery: jest.fn().mockResolvedValue(reader) });
+    const { client } = clientWith(fakeConnWith(statement));
+    const onEnd = jest.fn();
+    client.on('query:end', onEnd);
+    const out = new Writable({
+      write: (_chunk, _encoding, callback) => callback(new Error('disk full')),
+    });
+    out.on('error', () => {});
+
+    await expect(client.exportQuery('SELECT a', out, { format: 'csv', timeoutMs: 60_000 })).rejects.toThrow(
+      FlightSQLError
+    );
+    expect(reader.cancel).toHaveBeenCalled();
+    expect(statement.close).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('importFile', () => {
+  it('ingests parsed batches and reports rejected lines', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'gizmosql-import-'));
+    try {
+      const file = path.join(dir, 'orders.csv');
+      writeFileSync(file, 'id,qty\n1,2\n2,oops\n3,4\n');
+      const { client, conn } = clientWith();
+
+      const result = await client.importFile(file, 'orders', {
+        format: 'csv',
+        mode: 'append',
+        batchSize: 1,
+      });
+      expect(result).toEqual({
+        rowsLoaded: 2,
+        rejected: [{ line: 3, reason: expect.stringContaining('cannot convert "oops"') }],
+      });
+      expect(conn.ingest).toHaveBeenCalledWith('orders', expect.anything(), expect.objectContaining({ mode: 'adbc.ingest.mode.append' }));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('metadata', () => {
+  // GetObjects rows as the driver reports them (depth All).
+  const objectRows = [
+    {
+      catalog_name: 'memory',
+      catalog_db_schemas: [
+        {
+          db_schema_name: 'main',
+          db_schema_tables: [
+            {
+              table_name: 'orders',
+              table_type: 'BASE TABLE',
+              table_columns: [
+                {
+                  column_name: 'amount',
+                  ordinal_position: 2,
+                  remarks: null,
+                  xdbc_type_name: 'DECIMAL(18,3)',
+                  xdbc_column_size: 18,
+                  xdbc_decimal_digits: 3,
+                  xdbc_nullable: 1,
+                  xdbc_column_def: '0',
+                },
+                {
+                  column_name: 'id',
+                  ordinal_position: 1,
+                  remarks: 'order id',
+                  xdbc_type_name: 'INTEGER',
+                  xdbc_is_nullable: 'NO',
+                },
+              ],
+              table_constraints: [],
+            },
+          ],
+        },
+      ],
+    },
+  ];
+
+  const clientWithObjects = (rows: unknown[]) =>
+    clientWith(fakeConn({ getObjects: jest.fn().mockResolvedValue({ toArray: () => rows }) }));
+
+  it('getColumns maps the XDBC column fields in ordinal order', async () => {
+    const { client, conn } = clientWithObjects(objectRows);
+
+    await expect(client.getColumns('memory', 'main', 'orders', '%')).resolves.toEqual([
+      {
+        catalogName: 'memory',
+        schemaName: 'main',
+        tableName: 'orders',
+        columnName: 'id',
+        ordinalPosition: 1,
+        typeName: 'INTEGER',
+        nullable: false,
+        defaultValue: null,
+        remarks: 'order id',
+        precision: null,
+        scale: null,
+      },
+      {
+        catalogName: 'memory',
+        schemaName: 'main',
+        tableName: 'orders',
+        columnName: 'amount',
+        ordinalPosition: 2,
+        typeName: 'DECIMAL(18,3)',
+        nullable: true,
+        defaultValue: '0',
+        remarks: null,
+        precision: 18,
+        scale: 3,
+      },
+    ]);
+    expect(conn.getObjects).toHaveBeenCalledWith(
+      expect.objectContaining({ catalog: 'memory', dbSchema: 'main', tableName: 'orders', columnName: '%' })
+    );
+  });
+
+  it('getDatabaseMetadata only fetches columns and constraints on request', async () => {
+    const { client, conn } = clientWithObjects(objectRows);
+
+    const tablesOnly = await client.getDatabaseMetadata({ catalog: 'memory' });
+    expect(conn.getObjects).toHaveBeenLastCalledWith({ depth: ObjectDepth.Tables, catalog: 'memory' });
+    expect(tablesOnly.tables).toEqual([
+      { catalog: 'memory', schema: 'main', tableName: 'orders', tableType: 'BASE TABLE' },
+    ]);
+
+    const detailed = await client.getDatabaseMetadata({ includeColumns: true });
+    expect(conn.getObjects).toHaveBeenLastCalledWith({ depth: ObjectDepth.All, catalog: undefined });
+    expect(detailed.tables[0]!.columns!.map((column) => column.columnName)).toEqual(['id', 'amount']);
+    expect(detailed.tables[0]!.primaryKeys).toBeUndefined();
   });
 
-  it('closePrepared invalidates the handle', async () => {
+  describe('keys and constraints', () => {
+    // customers(id PK, email UNIQUE, CHECK) <- orders(customer_id FK), and
+    // audit(order_id FK) -> orders(id).
+    const table = (name: string, constraints: unknown[]) => ({
+      table_name: name,
+      table_type: 'BASE TABLE',
+      table_columns: [],
+      table_constraints: constraints,
+    });
+    const references = (tableName: string, column: string) => ({
+      fk_catalog: 'memory',
+      fk_db_schema: 'main',
+      fk_table: tableName,
+      fk_column_name: column,
+    });
+    const keyRows = [
+      {
+        catalog_name: 'memory',
+        catalog_db_schemas: [
+          {
+            db_schema_name: 'main',
+            db_schema_tables: [
+              table('customers', [
+                { constraint_name: 'customers_pkey', constraint_type: 'PRIMARY KEY', constraint_column_names: ['id'] },
+                { constraint_name: 'customers_email_key', constraint_type: 'UNIQUE', constraint_column_names: ['email'] },
+                { constraint_name: 'customers_check', constraint_type: 'CHECK', constraint_column_names: ['age'] },
+              ]),
+              table('orders', [
+                { constraint_type: 'PRIMARY KEY', constraint_column_names: ['id'] },
+                {
+                  constraint_type: 'FOREIGN KEY',
+                  constraint_column_names: ['customer_id'],
+                  constraint_column_usage: [references('customers', 'id')],
+                },
+              ]),
+              table('audit', [
+                {
+                  constraint_type: 'FOREIGN KEY',
+                  constraint_column_names: ['order_id'],
+                  constraint_column_usage: [references('orders', 'id')],
+                },
+              ]),
+            ],
+          },
+        ],
+      },
+    ];
+    const ordersToCustomers = {
+      pkCatalogName: 'memory',
+      pkSchemaName: 'main',
+      pkTableName: 'customers',
+      pkColumnName: 'id',
+      fkCatalogName: 'memory',
+      fkSchemaName: 'main',
+      fkTableName: 'orders',
+      fkColumnName: 'customer_id',
+    };
+
+    it('getExportedKeys finds the tables referencing a table', async () => {
+      const { client, conn } = clientWithObjects(keyRows);
+      await expect(client.getExportedKeys('memory', 'main', 'customers')).resolves.toEqual([ordersToCustomers]);
+      expect(conn.getObjects).toHaveBeenCalledWith({ depth: ObjectDepth.All, catalog: 'memory' });
+      await expect(client.getExportedKeys('memory', 'main', 'audit')).resolves.toEqual([]);
+    });
+
+    it('getCrossReference returns the keys between two tables', async () => {
+      const { client } = clientWithObjects(keyRows);
+      const customers = { catalog: 'memory', schema: 'main', tableName: 'customers' };
+      const orders = { catalog: 'memory', schema: 'main', tableName: 'orders' };
+      await expect(client.getCrossReference(customers, orders)).resolves.toEqual([ordersToCustomers]);
+      await expect(client.getCrossReference(orders, customers)).resolves.toEqual([]);
+    });
+
+    it('getCrossReference matches the referencing table by catalog and schema too', async () => {
+      const stagingOrders = table('orders', [
+        {
+          constraint_type: 'FOREIGN KEY',
+          constraint_column_names: ['customer_ref'],
+          constraint_column_usage: [references('customers', 'id')],
+        },
+      ]);
+      const rows = [
+        {
+          ...keyRows[0],
+          catalog_db_schemas: [
+            ...keyRows[0]!.catalog_db_schemas,
+            { db_schema_name: 'staging', db_schema_tables: [stagingOrders] },
+          ],
+        },
+      ];
+      const { client } = clientWithObjects(rows);
+      const customers = { catalog: 'memory', schema: 'main', tableName: 'customers' };
+      await expect(
+        client.getCrossReference(customers, { catalog: 'memory', schema: 'main', tableName: 'orders' })
+      ).resolves.toEqual([ordersToCustomers]);
+      await expect(
+        client.getCrossReference(customers, { catalog: 'memory', schema: 'staging', tableName: 'orders' })
+      ).resolves.toEqual([{ ...ordersToCustomers, fkSchemaName: 'staging', fkColumnName: 'customer_ref' }]);
+    });
+
+    it('getConstraints includes UNIQUE and CHECK constraints', async () => {
+      const { client } = clientWithObjects(keyRows);
+      const constraints = await client.getConstraints('memory', 'main');
+      expect(constraints.filter((c) => c.tableName === 'customers')).toEqual([
+        expect.objectContaining({ constraintName: 'customers_pkey', constraintType: 'PRIMARY KEY', columnNames: ['id'] }),
+        expect.objectContaining({ constraintType: 'UNIQUE', columnNames: ['email'], references: [] }),
+        expect.objectContaining({ constraintType: 'CHECK', columnNames: ['age'] }),
+      ]);
+      expect(constraints.find((c) => c.tableName === 'orders' && c.constraintType === 'FOREIGN KEY')).toEqual({
+        catalogName: 'memory',
+        schemaName: 'main',
+        tableName: 'orders',
+        constraintName: null,
+        constraintType: 'FOREIGN KEY',
+        columnNames: ['customer_id'],
+        references: [{ catalogName: 'memory', schemaName: 'main', tableName: 'customers', columnName: 'id' }],
+      });
+    });
+
+    it('getPrimaryKeys and getForeignKeys keep their shape', async () => {
+      const { client } = clientWithObjects(keyRows);
+      await expect(client.getPrimaryKeys('memory', 'main', 'orders')).resolves.toContainEqual({
+        catalogName: 'memory',
+        schemaName: 'main',
+        tableName: 'orders',
+        columnName: 'id',
+        keySequence: 1,
+      });
+      await expect(client.getForeignKeys('memory', 'main', 'orders')).resolves.toContainEqual(ordersToCustomers);
+    });
+  });
+});
+
+describe('server info', () => {
+  it('getServerInfo requests the SqlInfo IDs it reports and types the values', async () => {
+    const info = tableFromArrays({
+      info_name: [0, 1, 504],
+      info_value: ['GizmoSQL', 'v1.2.3', '"'],
+    });
+    const { client, conn } = clientWith(fakeConn({ getInfo: jest.fn().mockResolvedValue(info) }));
+
+    const serverInfo = await client.getServerInfo();
+    expect(serverInfo).toMatchObject({
+      serverName: 'GizmoSQL',
+      serverVersion: 'v1.2.3',
+      identifierQuoteChar: '"',
+      readOnly: null,
+      instrumentation: { enabled: null, catalog: null, schema: null },
+    });
+    expect(conn.getInfo).toHaveBeenCalledWith(
+      expect.arrayContaining([SqlInfo.FLIGHT_SQL_SERVER_NAME, SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED])
+    );
+  });
+});
+
+describe('lifecycle events', () => {
+  it('emits query events around execute and metadata calls', async () => {
+    const redactSql = (sql: string) => sql.split(/\d+/).join('N');
+    const conn = fakeConn({
+      query: jest.fn().mockResolvedValue(tableFromArrays({ n: Int32Array.from([1, 2]) })),
+      getObjects: jest.fn().mockResolvedValue({ toArray: () => [{ catalog_name: 'memory' }] }),
+    });
+    const { client } = clientWith(conn, { redactSql });
+    const events: Array<[string, any]> = [];
+    client
+      .on('query:start', (event) => events.push(['start', event]))
+      .on('query:end', (event) => events.push(['end', event]));
+
+    await client.execute('SELECT 42', { rowMode: 'objects' });
+    await client.getCatalogs();
+
+    expect(events.map(([name, event]) => [name, event.operation, event.sql, event.rowCount])).toEqual([
+      ['start', 'execute', 'SELECT N', undefined],
+      ['end', 'execute', 'SELECT N', 2],
+      ['start', 'getCatalogs', undefined, undefined],
+      ['end', 'getCatalogs', undefined, 1],
+    ]);
+    expect(events[1]![1].byteCount).toBeGreaterThan(0);
+    expect(events[1]![1].id).toBe(events[0]![1].id);
+  });
+
+  it('emits query:error with the mapped error', async () => {
+    const failure = Object.assign(new Error('no such table'), { code: 'NotFound' });
+    const { client } = clientWith(fakeConn({ query: jest.fn().mockRejectedValue(failure) }));
+    const onError = jest.fn();
+    client.on('query:error', onError);
+
+    const rejection = await client.execute('SELECT * FROM missing').catch((error: unknown) => error);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'execute', error: rejection, code: 'NotFound' })
+    );
+  });
+
+  it('ends a stream query once its batches are consumed', async () => {
+    const table = tableFromArrays({ n: Int32Array.from([1, 2, 3]) });
+    const { client } = clientWith(fakeConn({ queryStream: jest.fn().mockResolvedValue(fakeReader(table)) }));
+    const onEnd = jest.fn();
+    client.on('query:end', onEnd);
+
+    const stream = await client.executeStream('SELECT n');
+    expect(onEnd).not.toHaveBeenCalled();
+    for await (const batch of stream) expect(batch.numRows).toBe(3);
+    expect(onEnd).toHaveBeenCalledWith(expect.objectContaining({ operation: 'executeStream', rowCount: 3 }));
+  });
+
+  it('emits disconnect when the connection is closed', async () => {
     const client = new FlightSQLClient({ host: 'h', port: 1 });
-    asAny(client).ensureConn = jest.fn().mockResolvedValue({});
-    client.execute = jest.fn() as any;
+    asAny(client).conn = fakeConn();
+    const onDisconnect = jest.fn();
+    client.on('disconnect', onDisconnect);
 
-    const prepared = await client.prepare('SELECT 1');
-    await client.closePrepared(prepared);
-    await expect(client.executePrepared(prepared)).rejects.toThrow(FlightSQLError);
+    await client.close();
+    expect(onDisconnect).toHaveBeenCalledWith({ host: 'h', port: 1 });
+  });
+});
+
+describe('result cache', () => {
+  const data = tableFromArrays({ n: Int32Array.from([7]) });
+  const cachedClient = () =>
+    clientWith(fakeConn({ query: jest.fn().mockResolvedValue(data) }), { cache: { ttlMs: 60_000 } });
+
+  it('serves repeated read-only queries from the cache', async () => {
+    const { client, conn } = cachedClient();
+
+    const first = await client.execute('SELECT n FROM t');
+    const second = await client.execute('SELECT n\n  FROM t;', { rowMode: 'objects' });
+
+    expect(conn.query).toHaveBeenCalledTimes(1);
+    expect(first.numRows).toBe(1);
+    expect(second).toEqual([{ n: 7 }]);
+  });
+
+  it('bypasses the cache for writes, opt-outs and transactions', async () => {
+    const { client, conn } = cachedClient();
+
+    await client.execute('SELECT n FROM t');
+    await client.withTransaction(async (tx) => {
+      await tx.execute('SELECT n FROM t');
+    });
+    await client.execute('SELECT n FROM t');
+    await client.execute('SELECT n FROM t', { cache: false });
+    await client.execute('INSERT INTO t VALUES (1)');
+    await client.execute('INSERT INTO t VALUES (1)');
+
+    expect(conn.query).toHaveBeenCalledTimes(5);
+  });
+
+  it('invalidates results by pattern and tag', async () => {
+    const { client, conn } = cachedClient();
+
+    await client.execute('SELECT n FROM t', { cache: { tags: ['t'] } });
+    await client.execute('SELECT n FROM u');
+    await expect(client.invalidateCache({ tag: 't' })).resolves.toBe(1);
+    await expect(client.invalidateCache(/FROM u/)).resolves.toBe(1);
+    await client.execute('SELECT n FROM t');
+
+    expect(conn.query).toHaveBeenCalledTimes(3);
+  });
+
+  it('does nothing without a configured cache', async () => {
+    const { client, conn } = clientWith(fakeConn({ query: jest.fn().mockResolvedValue(data) }));
+
+    await client.execute('SELECT n FROM t', { cache: true });
+    await client.execute('SELECT n FROM t', { cache: true });
+
+    expect(conn.query).toHaveBeenCalledTimes(2);
+    await expect(client.invalidateCache()).resolves.toBe(0);
   });
 });
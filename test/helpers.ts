@@ -0,0 +1,87 @@
+// Fakes shared by the unit tests: ADBC readers, statements and
+// connections built from jest mocks, and clients wired to them so no
+// native driver is loaded.
+
+import { Table, tableFromArrays } from 'apache-arrow';
+import { FlightSQLClient } from '../src/flightsql-client';
+import { FlightSQLClientConfig } from '../src/types';
+
+/** Access private members to stub the connection without a live driver. */
+export const asAny = (value: object) => value as any;
+
+/** What the fakes return unless a test overrides it. */
+export const resultData = tableFromArrays({ v: Int32Array.from([1]) });
+
+/** A query reader over the batches of `data`. */
+export const fakeReader = (data: Table = resultData) => ({
+  schema: data.schema,
+  cancel: jest.fn(),
+  async *[Symbol.asyncIterator]() {
+    yield* data.batches;
+  },
+});
+
+/** An ADBC statement whose queries read `resultData`; `overrides` replaces members. */
+export const fakeStatement = <T extends object = object>(overrides: T = {} as T) => ({
+  setSqlQuery: jest.fn().mockResolvedValue(undefined),
+  prepare: jest.fn().mockResolvedValue(undefined),
+  getParameterSchema: jest.fn().mockResolvedValue({ fields: [] }),
+  executeSchema: jest.fn().mockResolvedValue(resultData.schema),
+  bind: jest.fn().mockResolvedValue(undefined),
+  executeQuery: jest.fn().mockImplementation(async () => fakeReader()),
+  cancel: jest.fn(),
+  close: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+/**
+ * An ADBC connection whose queries return `resultData`, with a fresh
+ * `fakeStatement()` per `createStatement()`; `overrides` replaces members.
+ */
+export const fakeConn = <T extends object = object>(overrides: T = {} as T) => ({
+  query: jest.fn().mockResolvedValue(resultData),
+  queryStream: jest.fn().mockImplementation(async () => fakeReader()),
+  createStatement: jest.fn().mockImplementation(async () => fakeStatement()),
+  ingest: jest.fn().mockImplementation(async (_name: string, table: Table) => table.numRows),
+  setOption: jest.fn().mockResolvedValue(undefined),
+  commit: jest.fn().mockResolvedValue(undefined),
+  rollback: jest.fn().mockResolvedValue(undefined),
+  close: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+/** A `fakeConn()` whose `createStatement()` always returns `statement`. */
+export const fakeConnWith = (statement: object) =>
+  fakeConn({ createStatement: jest.fn().mockResolvedValue(statement) });
+
+/** A client whose calls all run on `conn`. */
+export const clientWith = <C extends object = ReturnType<typeof fakeConn>>(
+  conn: C = fakeConn() as C,
+  config: Partial<FlightSQLClientConfig> = {}
+) => {
+  const client = new FlightSQLClient({ host: 'h', port: 1, ...config });
+  asAny(client).ensureConn = jest.fn().mockImplementation(async () => {
+    asAny(client).conn = conn;
+    return conn;
+  });
+  return { client, conn };
+};
+
+/**
+ * A client whose every (re)connect opens the connection `open` returns
+ * for that attempt (0 for the first), for scripting failures across
+ * reconnects. `conns` lists the connections in the order they opened.
+ */
+export const reconnectingClient = <C extends object>(
+  open: (client: FlightSQLClient, index: number) => C | Promise<C>,
+  config: Partial<FlightSQLClientConfig> = {}
+) => {
+  const client = new FlightSQLClient({ host: 'h', port: 1, ...config });
+  const conns: C[] = [];
+  asAny(client).connect = jest.fn(async () => {
+    const conn = await open(client, conns.length);
+    conns.push(conn);
+    asAny(client).conn = conn;
+  });
+  return { client, conns };
+};
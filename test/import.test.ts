@@ -0,0 +1,154 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Field, Int32, Int64, RecordBatch, Schema, Utf8 } from 'apache-arrow';
+import { importBatches } from '../src/import';
+import { FlightSQLError } from '../src/errors';
+import { ImportOptions, ImportRejection } from '../src/types';
+
+let dir: string;
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'gizmosql-import-'));
+});
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const load = async (contents: string, options: ImportOptions) => {
+  const file = path.join(dir, `input-${Math.random().toString(36).slice(2)}`);
+  writeFileSync(file, contents);
+  const rejected: ImportRejection[] = [];
+  const batches: RecordBatch[] = [];
+  for await (const batch of importBatches(file, options, (line, reason) => rejected.push({ line, reason }))) {
+    batches.push(batch);
+  }
+  const rows = batches.flatMap((batch) => batch.toArray().map((row) => row.toJSON()));
+  return { batches, rows, rejected };
+};
+
+describe('importBatches (CSV)', () => {
+  it('infers column types from the header and first batch', async () => {
+    const { batches, rows } = await load(
+      'id,price,active,created,name\n1,9.5,true,2024-01-02T03:04:05Z,widget\n2,,false,2024-02-03,"a, ""b"""\n',
+      { format: 'csv' }
+    );
+    expect(batches[0]!.schema.fields.map((f) => `${f.name}: ${f.type}`)).toEqual([
+      'id: Int64',
+      'price: Float64',
+      'active: Bool',
+      'created: Timestamp<MILLISECOND>',
+      'name: Utf8',
+    ]);
+    expect(rows[0]).toMatchObject({ id: 1n, price: 9.5, active: true, name: 'widget' });
+    expect(rows[1]).toMatchObject({ id: 2n, price: null, active: false, name: 'a, "b"' });
+  });
+
+  it('handles quoted line breaks, custom delimiters and headerless files', async () => {
+    const { rows } = await load('1;"two\nlines"\n2;""\n', { format: 'csv', delimiter: ';', header: false });
+    expect(rows).toEqual([
+      { column1: 1n, column2: 'two\nlines' },
+      { column1: 2n, column2: '' },
+    ]);
+  });
+
+  it('applies a supplied schema and rejects lines that do not fit it', async () => {
+    const schema = new Schema([new Field('n', new Int32()), new Field('label', new Utf8())]);
+    const { rows, rejected } = await load('n,label\n1,a\nx,b\n3\n4,d\n', { format: 'csv', schema });
+    expect(rows).toEqual([
+      { n: 1, label: 'a' },
+      { n: 4, label: 'd' },
+    ]);
+    expect(rejected.map((r) => r.line)).toEqual([3, 4]);
+    expect(rejected[0]!.reason).toContain('cannot convert "x"');
+    expect(rejected[1]!.reason).toBe('Expected 2 fields but found 1');
+  });
+
+  it('rejects a row as a whole when a later column fails', async () => {
+    const schema = new Schema([new Field('a', new Int32()), new Field('b', new Int32())]);
+    const { rows, rejected } = await load('a,b\n1,2\n3,x\n5,6\n', { format: 'csv', schema });
+    expect(rows).toEqual([
+      { a: 1, b: 2 },
+      { a: 5, b: 6 },
+    ]);
+    expect(rejected.map((r) => r.line)).toEqual([3]);
+  });
+
+  it('rejects integers outside the 64-bit range', async () => {
+    const schema = new Schema([new Field('n', new Int64())]);
+    const { rows, rejected } = await load(
+      'n\n-9223372036854775808\n9223372036854775807\n9223372036854775808\n-9223372036854775809\n',
+      { format: 'csv', schema }
+    );
+    expect(rows).toEqual([{ n: -(2n ** 63n) }, { n: 2n ** 63n - 1n }]);
+    expect(rejected.map((r) => r.line)).toEqual([4, 5]);
+  });
+
+  it('reads timestamps without a zone as UTC, like dates', async () => {
+    const { rows } = await load(
+      'at\n2024-01-02 10:00:00\n2024-01-02T10:00:00.5\n2024-01-02\n2024-01-02T10:00:00+01:00\n',
+      { format: 'csv' }
+    );
+    expect(rows.map((row) => Number(row.at))).toEqual([
+      Date.UTC(2024, 0, 2, 10),
+      Date.UTC(2024, 0, 2, 10, 0, 0, 500),
+      Date.UTC(2024, 0, 2),
+      Date.UTC(2024, 0, 2, 9),
+    ]);
+  });
+
+  it('reads every column as VARCHAR when inference is off', async () => {
+    const { batches } = await load('a,b\n1,true\n', { format: 'csv', inferSchema: false });
+    expect(batches[0]!.schema.fields.map((f) => String(f.type))).toEqual(['Utf8', 'Utf8']);
+  });
+
+  it('splits the file into batchSize batches', async () => {
+    const { batches } = await load('v\n1\n2\n3\n4\n5\n', { format: 'csv', batchSize: 2 });
+    expect(batches.map((b) => b.numRows)).toEqual([2, 2, 1]);
+  });
+
+  it('sends one empty batch for a header-only file', async () => {
+    const { batches } = await load('a,b\n', { format: 'csv' });
+    expect(batches).toHaveLength(1);
+    expect(batches[0]!.numRows).toBe(0);
+  });
+
+  it('validates batchSize', async () => {
+    await expect(load('a\n1\n', { format: 'csv', batchSize: 0 })).rejects.toThrow(FlightSQLError);
+  });
+});
+
+describe('importBatches (NDJSON)', () => {
+  it('collects keys across the first batch and rejects invalid lines', async () => {
+    const { batches, rows, rejected } = await load(
+      '{"id": 1, "tags": ["a"]}\nnot json\n\n[1]\n{"id": 2, "extra": "x"}\n',
+      { format: 'ndjson' }
+    );
+    expect(batches[0]!.schema.fields.map((f) => `${f.name}: ${f.type}`)).toEqual([
+      'id: Int64',
+      'tags: Utf8',
+      'extra: Utf8',
+    ]);
+    expect(rows).toEqual([
+      { id: 1n, tags: '["a"]', extra: null },
+      { id: 2n, tags: null, extra: 'x' },
+    ]);
+    expect(rejected).toEqual([
+      { line: 2, reason: expect.stringContaining('Invalid JSON') },
+      { line: 4, reason: 'Expected a JSON object' },
+    ]);
+  });
+
+  it('rejects lines with keys the first batch did not have', async () => {
+    const { rows, rejected } = await load('{"id": 1}\n{"id": 2, "late": true}\n{"id": 3}\n', {
+      format: 'ndjson',
+      batchSize: 1,
+    });
+    expect(rows).toEqual([{ id: 1n }, { id: 3n }]);
+    expect(rejected).toEqual([{ line: 2, reason: expect.stringContaining('Unknown key "late"') }]);
+  });
+
+  it('reads only the schema columns when a schema is given', async () => {
+    const schema = new Schema([new Field('id', new Int32())]);
+    const { rows, rejected } = await load('{"id": 1, "other": "x"}\n', { format: 'ndjson', schema });
+    expect(rows).toEqual([{ id: 1 }]);
+    expect(rejected).toEqual([]);
+  });
+});
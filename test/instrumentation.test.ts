@@ -0,0 +1,141 @@
+import { FlightSQLError } from '../src/errors';
+import { FlightSQLClient } from '../src/flightsql-client';
+import { Instrumentation } from '../src/instrumentation';
+import { SqlInfo } from '../src/sql-info';
+import { SqlInfoValue } from '../src/types';
+
+const enabledInfo = new Map<number, SqlInfoValue>([
+  [SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED, true],
+  [SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG, '_gizmosql_instr'],
+  [SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA, 'main'],
+]);
+
+const started = new Date('2026-01-02T03:04:05Z');
+
+function fakeClient(info = enabledInfo, rows: unknown[] = []) {
+  return {
+    execute: jest.fn().mockResolvedValue(rows),
+    getSqlInfo: jest.fn().mockResolvedValue(info),
+  };
+}
+
+describe('Instrumentation', () => {
+  it('lists active sessions from the reported catalog and schema', async () => {
+    const client = fakeClient(enabledInfo, [
+      {
+        session_id: 's-1',
+        instance_id: 'i-1',
+        username: 'alice',
+        role: 'admin',
+        peer: 'ipv4:10.0.0.1:5000',
+        start_time: started,
+        stop_time: null,
+        status: 'active',
+      },
+    ]);
+    const instrumentation = new Instrumentation(client);
+
+    await expect(instrumentation.listSessions()).resolves.toEqual([
+      {
+        sessionId: 's-1',
+        instanceId: 'i-1',
+        username: 'alice',
+        role: 'admin',
+        peer: 'ipv4:10.0.0.1:5000',
+        startTime: started,
+        stopTime: null,
+        status: 'active',
+      },
+    ]);
+    const [sql, params, options] = client.execute.mock.calls[0];
+    expect(sql).toContain('FROM "_gizmosql_instr"."main".sessions');
+    expect(params).toEqual([]);
+    expect(options).toMatchObject({ rowMode: 'objects', cache: false });
+  });
+
+  it('maps running statement executions', async () => {
+    const client = fakeClient(enabledInfo, [
+      {
+        execution_id: 'x-1',
+        statement_id: 'st-1',
+        session_id: 's-1',
+        username: 'alice',
+        sql_text: 'SELECT 42',
+        execution_start_time: started,
+        execution_end_time: null,
+        status: 'executing',
+        rows_fetched: 0,
+        error_message: null,
+        duration_ms: null,
+      },
+    ]);
+    const [running] = await new Instrumentation(client).listRunningStatements();
+    expect(running).toEqual({
+      executionId: 'x-1',
+      statementId: 'st-1',
+      sessionId: 's-1',
+      username: 'alice',
+      sqlText: 'SELECT 42',
+      startTime: started,
+      endTime: null,
+      status: 'executing',
+      rowsFetched: 0,
+      errorMessage: null,
+      durationMs: null,
+    });
+    expect(client.execute.mock.calls[0][0]).toContain("WHERE e.status = 'executing'");
+  });
+
+  it('filters statement history with bound parameters', async () => {
+    const client = fakeClient();
+    const instrumentation = new Instrumentation(client);
+
+    await instrumentation.getStatementHistory({ since: started, user: "o'brien", limit: 10 });
+    await instrumentation.getStatementHistory();
+
+    const [filtered, defaults] = client.execute.mock.calls;
+    expect(filtered[0]).toContain('WHERE e.execution_start_time >= ? AND ses.username = ?');
+    expect(filtered[1]).toEqual([started, "o'brien", 10]);
+    expect(defaults[0]).not.toContain('WHERE');
+    expect(defaults[1]).toEqual([100]);
+    // The location is looked up once per client.
+    expect(client.getSqlInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an invalid history limit', async () => {
+    await expect(new Instrumentation(fakeClient()).getStatementHistory({ limit: 0 })).rejects.toThrow(
+      new FlightSQLError('Statement history limit must be a positive integer')
+    );
+  });
+
+  it('kills sessions and cancels statements with quoted ids, without retrying', async () => {
+    const client = fakeClient();
+    const instrumentation = new Instrumentation(client);
+
+    await instrumentation.killSession("s-1'; DROP TABLE t; --");
+    await instrumentation.cancelStatement('st-1');
+
+    expect(client.execute.mock.calls.map(([sql]) => sql)).toEqual([
+      "KILL SESSION 's-1''; DROP TABLE t; --'",
+      "KILL STATEMENT 'st-1'",
+    ]);
+    expect(client.execute.mock.calls[0][2]).toMatchObject({ retry: false });
+  });
+
+  it('fails clearly when instrumentation is disabled', async () => {
+    const client = fakeClient(new Map([[SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED, false]]));
+    const instrumentation = new Instrumentation(client);
+
+    await expect(instrumentation.listSessions()).rejects.toThrow(
+      new FlightSQLError('Instrumentation is not enabled on this GizmoSQL server')
+    );
+    await expect(instrumentation.killSession('s-1')).rejects.toThrow(FlightSQLError);
+    expect(client.execute).not.toHaveBeenCalled();
+    // A failed lookup is not cached.
+    expect(client.getSqlInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('is available on the client', () => {
+    expect(new FlightSQLClient({ host: 'h', port: 1 }).instrumentation).toBeInstanceOf(Instrumentation);
+  });
+});
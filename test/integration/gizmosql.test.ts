@@ -1,4 +1,5 @@
 import { execSync } from 'node:child_process';
+import { tableFromArrays } from 'apache-arrow';
 import { FlightSQLClient } from '../../src/flightsql-client';
 import { FlightSQLClientConfig } from '../../src/types';
 
@@ -375,4 +376,24 @@ describeIfDocker('GizmoSQL Semantics (via the Go driver)', () => {
     const rows = await client.execute('SELECT id FROM js_semantics_t ORDER BY id');
     expect(rows.toArray().map((r: any) => Number(r.id))).toEqual([1, 12, 13]);
   });
+
+  it('bulk-ingests Arrow data with create and append modes', async () => {
+    const data = tableFromArrays({ id: Int32Array.from([1, 2, 3]) });
+    expect(await client.ingest('js_semantics_t', data, { mode: 'create' })).toBe(3);
+    await client.ingest('js_semantics_t', data.batches, { mode: 'append' });
+    const count = await client.execute('SELECT COUNT(*)::INT AS n FROM js_semantics_t');
+    expect(count.toArray()[0].n).toBe(6);
+  });
+
+  it('rolls back a failed withTransaction block', async () => {
+    await client.execute('CREATE TABLE js_semantics_t (id INT)');
+    await expect(
+      client.withTransaction(async (tx) => {
+        await tx.execute('INSERT INTO js_semantics_t VALUES (1)');
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+    const count = await client.execute('SELECT COUNT(*)::INT AS n FROM js_semantics_t');
+    expect(count.toArray()[0].n).toBe(0);
+  });
 });
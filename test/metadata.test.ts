@@ -0,0 +1,166 @@
+import { buildDatabaseMetadata, constraintsOf, diffMetadata, tablesOf } from '../src/metadata';
+import { DatabaseMetadata } from '../src/types';
+
+// GetObjects rows (depth All) for memory.main.customers / orders.
+const objectRows = () => [
+  {
+    catalog_name: 'memory',
+    catalog_db_schemas: [
+      { db_schema_name: 'empty', db_schema_tables: [] },
+      {
+        db_schema_name: 'main',
+        db_schema_tables: [
+          {
+            table_name: 'customers',
+            table_type: 'BASE TABLE',
+            table_columns: [
+              { column_name: 'id', ordinal_position: 1, xdbc_type_name: 'INTEGER', xdbc_nullable: 0 },
+              { column_name: 'name', ordinal_position: 2, xdbc_type_name: 'VARCHAR', xdbc_nullable: 1 },
+            ],
+            table_constraints: [
+              { constraint_type: 'PRIMARY KEY', constraint_column_names: ['id'], constraint_column_usage: [] },
+            ],
+          },
+          {
+            table_name: 'orders',
+            table_type: 'BASE TABLE',
+            table_columns: [
+              { column_name: 'id', ordinal_position: 1, xdbc_type_name: 'INTEGER', xdbc_nullable: 0 },
+              { column_name: 'customer_id', ordinal_position: 2, xdbc_type_name: 'INTEGER', xdbc_nullable: 1 },
+            ],
+            table_constraints: [
+              { constraint_type: 'PRIMARY KEY', constraint_column_names: ['id'], constraint_column_usage: [] },
+              {
+                constraint_type: 'FOREIGN KEY',
+                constraint_column_names: ['customer_id'],
+                constraint_column_usage: [
+                  { fk_catalog: 'memory', fk_db_schema: 'main', fk_table: 'customers', fk_column_name: 'id' },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+const snapshot = (rows = objectRows()): DatabaseMetadata =>
+  buildDatabaseMetadata(rows, { includeColumns: true, includeConstraints: true });
+
+describe('buildDatabaseMetadata', () => {
+  it('lists catalogs, schemas and tables', () => {
+    const metadata = buildDatabaseMetadata(objectRows());
+    expect(metadata).toEqual({
+      catalogs: ['memory'],
+      schemas: [
+        { catalog: 'memory', schema: 'empty' },
+        { catalog: 'memory', schema: 'main' },
+      ],
+      tables: [
+        { catalog: 'memory', schema: 'main', tableName: 'customers', tableType: 'BASE TABLE' },
+        { catalog: 'memory', schema: 'main', tableName: 'orders', tableType: 'BASE TABLE' },
+      ],
+    });
+  });
+
+  it('includes columns and keys on request, as JSON-safe data', () => {
+    const metadata = snapshot();
+    const orders = metadata.tables[1]!;
+    expect(orders.columns!.map((column) => [column.columnName, column.typeName, column.nullable])).toEqual([
+      ['id', 'INTEGER', false],
+      ['customer_id', 'INTEGER', true],
+    ]);
+    expect(orders.primaryKeys).toEqual([
+      { catalogName: 'memory', schemaName: 'main', tableName: 'orders', columnName: 'id', keySequence: 1 },
+    ]);
+    expect(orders.foreignKeys).toHaveLength(1);
+    const json = JSON.stringify(metadata);
+    expect(JSON.parse(json)).toEqual(metadata);
+  });
+});
+
+describe('constraintsOf', () => {
+  it('keeps UNIQUE and CHECK constraints alongside the keys', () => {
+    const rows = objectRows();
+    const customers = rows[0]!.catalog_db_schemas[1]!.db_schema_tables![0] as any;
+    customers.table_constraints.push(
+      { constraint_name: 'customers_name_key', constraint_type: 'UNIQUE', constraint_column_names: ['name'] },
+      { constraint_type: 'CHECK', constraint_column_names: [] }
+    );
+    const [entry] = tablesOf(rows);
+    expect(constraintsOf(entry!).map((c) => [c.constraintName, c.constraintType, c.columnNames])).toEqual([
+      [null, 'PRIMARY KEY', ['id']],
+      ['customers_name_key', 'UNIQUE', ['name']],
+      [null, 'CHECK', []],
+    ]);
+  });
+});
+
+describe('diffMetadata', () => {
+  it('reports nothing for identical snapshots', () => {
+    expect(diffMetadata(snapshot(), snapshot())).toEqual({
+      addedTables: [],
+      removedTables: [],
+      changedTables: [],
+    });
+  });
+
+  it('reports added, removed and changed tables, columns and keys', () => {
+    const rows = objectRows();
+    const tables = rows[0]!.catalog_db_schemas[1]!.db_schema_tables!;
+    const [customers, orders] = tables as any[];
+    // customers: name widened to TEXT and made NOT NULL, email added.
+    customers.table_columns[1] = { ...customers.table_columns[1], xdbc_type_name: 'TEXT', xdbc_nullable: 0 };
+    customers.table_columns.push({ column_name: 'email', ordinal_position: 3, xdbc_type_name: 'VARCHAR' });
+    // orders dropped (with its foreign key); invoices added.
+    tables.splice(1, 1, { ...orders, table_name: 'invoices' });
+    // The primary key of customers now spans (id, name).
+    customers.table_constraints[0].constraint_column_names = ['id', 'name'];
+
+    const diff = diffMetadata(snapshot(), snapshot(rows));
+    expect(diff.addedTables).toEqual([{ catalog: 'memory', schema: 'main', tableName: 'invoices' }]);
+    expect(diff.removedTables).toEqual([{ catalog: 'memory', schema: 'main', tableName: 'orders' }]);
+    expect(diff.changedTables).toEqual([
+      {
+        catalog: 'memory',
+        schema: 'main',
+        tableName: 'customers',
+        addedColumns: ['email'],
+        removedColumns: [],
+        changedColumns: [
+          {
+            columnName: 'name',
+            changes: {
+              typeName: { before: 'VARCHAR', after: 'TEXT' },
+              nullable: { before: true, after: false },
+            },
+          },
+        ],
+        primaryKey: { before: ['id'], after: ['id', 'name'] },
+        addedForeignKeys: [],
+        removedForeignKeys: [],
+      },
+    ]);
+  });
+
+  it('reports foreign key and table type changes', () => {
+    const rows = objectRows();
+    const orders = rows[0]!.catalog_db_schemas[1]!.db_schema_tables![1] as any;
+    orders.table_type = 'VIEW';
+    orders.table_constraints[1].constraint_column_usage[0].fk_column_name = 'legacy_id';
+
+    const [changed] = diffMetadata(snapshot(), snapshot(rows)).changedTables;
+    expect(changed).toMatchObject({
+      tableName: 'orders',
+      tableType: { before: 'BASE TABLE', after: 'VIEW' },
+      addedForeignKeys: ['customer_id -> memory.main.customers(legacy_id)'],
+      removedForeignKeys: ['customer_id -> memory.main.customers(id)'],
+    });
+  });
+
+  it('skips columns and keys missing from either snapshot', () => {
+    const bare = buildDatabaseMetadata(objectRows());
+    expect(diffMetadata(bare, snapshot()).changedTables).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { Binary, Bool, Float64, Int64, Null, Schema, TimestampMillisecond, Utf8, Field } from 'apache-arrow';
+import { checkParameters, toParameterTable } from '../src/params';
+import { FlightSQLError } from '../src/errors';
+
+describe('toParameterTable', () => {
+  it('builds a one-row batch with one positional column per value', () => {
+    const table = toParameterTable([1, 'a', null]);
+    expect(table.numRows).toBe(1);
+    expect(table.schema.fields.map((f) => f.name)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('maps JS values onto Arrow types', () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    const when = new Date(1_700_000_000_123);
+    const table = toParameterTable([7, 1.5, 9n, 'x', true, when, bytes, null]);
+    const types = table.schema.fields.map((f) => f.type);
+    expect(types[0]).toBeInstanceOf(Int64);
+    expect(types[1]).toBeInstanceOf(Float64);
+    expect(types[2]).toBeInstanceOf(Int64);
+    expect(types[3]).toBeInstanceOf(Utf8);
+    expect(types[4]).toBeInstanceOf(Bool);
+    expect(types[5]).toBeInstanceOf(TimestampMillisecond);
+    expect(types[6]).toBeInstanceOf(Binary);
+    expect(types[7]).toBeInstanceOf(Null);
+
+    const row = table.get(0)!.toJSON();
+    expect(row.p1).toBe(7n);
+    expect(row.p2).toBe(1.5);
+    expect(row.p6).toBe(when.getTime());
+    expect(Array.from(row.p7 as Uint8Array)).toEqual([1, 2, 3]);
+  });
+
+  it('binds unsafe integers as doubles', () => {
+    const table = toParameterTable([2 ** 60]);
+    expect(table.schema.fields[0].type).toBeInstanceOf(Float64);
+  });
+
+  it('rejects unsupported values with the placeholder position', () => {
+    expect(() => toParameterTable([1, { a: 1 } as any])).toThrow(FlightSQLError);
+    expect(() => toParameterTable([1, undefined as any])).toThrow('query parameter $2: undefined');
+  });
+});
+
+describe('checkParameters', () => {
+  const schema = new Schema([new Field('0', new Int64()), new Field('1', new Utf8())]);
+
+  it('accepts a matching argument count', () => {
+    expect(() => checkParameters(schema, [1, 'a'])).not.toThrow();
+  });
+
+  it('rejects a mismatched argument count', () => {
+    expect(() => checkParameters(schema, [1])).toThrow(FlightSQLError);
+  });
+
+  it('skips the check when no schema is known', () => {
+    expect(() => checkParameters(undefined, [1, 2, 3])).not.toThrow();
+  });
+});
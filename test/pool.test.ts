@@ -0,0 +1,208 @@
+import * as connection from '../src/connection';
+import { FlightSQLPool, PooledClient } from '../src/pool';
+import { ConnectionError, FlightError } from '../src/errors';
+import { FlightSQLPoolConfig } from '../src/types';
+import { asAny, fakeConn, resultData } from './helpers';
+
+// Pool bookkeeping against fake ADBC connections; the shared database
+// is injected so no native driver is loaded.
+
+const poolWith = (config: Partial<FlightSQLPoolConfig> = {}) => {
+  const pool = new FlightSQLPool({ host: 'h', port: 1, ...config });
+  const conns: Array<ReturnType<typeof fakeConn>> = [];
+  const db = {
+    connect: jest.fn().mockImplementation(async () => {
+      const conn = fakeConn();
+      conns.push(conn);
+      return conn;
+    }),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+  asAny(pool).db = db;
+  return { pool, db, conns };
+};
+
+describe('FlightSQLPool', () => {
+  it('validates pool sizing', () => {
+    expect(() => new FlightSQLPool({ host: 'h', port: 1, max: 0 })).toThrow(FlightError);
+    expect(() => new FlightSQLPool({ host: 'h', port: 1, min: 3, max: 2 })).toThrow(FlightError);
+    expect(() => new FlightSQLPool({ host: '', port: 1 })).toThrow(FlightError);
+  });
+
+  it('shares one database and reuses released connections after a health check', async () => {
+    const { pool, db, conns } = poolWith();
+    const first = await pool.acquire();
+    expect(first).toBeInstanceOf(PooledClient);
+    await pool.release(first);
+
+    const second = await pool.acquire();
+    expect(db.connect).toHaveBeenCalledTimes(1);
+    expect(conns[0].query).toHaveBeenCalledWith('SELECT 1');
+    expect(pool.stats).toEqual({ size: 1, idle: 0, borrowed: 1, waiting: 0 });
+    await second.close();
+    expect(pool.stats.idle).toBe(1);
+  });
+
+  it('hands out clients that share the pool state', async () => {
+    const { pool } = poolWith({ cache: true });
+    const first = (await pool.acquire()) as any;
+    const second = (await pool.acquire()) as any;
+
+    for (const field of ['auth', 'events', 'resultCache']) {
+      expect(first[field]).toBe(asAny(pool)[field]);
+      expect(second[field]).toBe(first[field]);
+    }
+  });
+
+  it('emits connection and client events to pool listeners', async () => {
+    const { pool, conns } = poolWith();
+    const seen: string[] = [];
+    pool
+      .on('connect', () => seen.push('connect'))
+      .on('disconnect', () => seen.push('disconnect'))
+      .on('query:end', (event) => seen.push(`end ${event.operation}`));
+
+    await pool.execute('SELECT 1');
+    conns[0]!.query.mockRejectedValue(new Error('connection reset'));
+    await pool.release(await pool.acquire());
+
+    expect(seen).toEqual(['connect', 'end execute', 'disconnect', 'connect']);
+  });
+
+  it('replaces idle connections that fail the health check', async () => {
+    const { pool, db, conns } = poolWith();
+    await pool.release(await pool.acquire());
+    conns[0].query.mockRejectedValue(new Error('connection reset'));
+
+    await pool.acquire();
+    expect(conns[0].close).toHaveBeenCalled();
+    expect(db.connect).toHaveBeenCalledTimes(2);
+    expect(pool.stats.size).toBe(1);
+  });
+
+  it('queues acquire() at max and hands over released connections', async () => {
+    const { pool, db } = poolWith({ max: 1 });
+    const first = await pool.acquire();
+    const waiting = pool.acquire();
+    expect(pool.stats.waiting).toBe(1);
+
+    await pool.release(first);
+    const second = await waiting;
+    expect(db.connect).toHaveBeenCalledTimes(1);
+    expect(pool.stats.borrowed).toBe(1);
+    await pool.release(second);
+  });
+
+  it('rejects acquire() after acquireTimeoutMs', async () => {
+    const { pool } = poolWith({ max: 1, acquireTimeoutMs: 10 });
+    await pool.acquire();
+    await expect(pool.acquire()).rejects.toThrow(
+      new ConnectionError('Timed out after 10ms waiting for a pooled connection')
+    );
+    expect(pool.stats.waiting).toBe(0);
+  });
+
+  it('execute() borrows and returns a connection', async () => {
+    const { pool, conns } = poolWith();
+    await expect(pool.execute('SELECT 42')).resolves.toBe(resultData);
+    expect(conns[0].query).toHaveBeenCalledWith('SELECT 42');
+    expect(pool.stats).toEqual({ size: 1, idle: 1, borrowed: 0, waiting: 0 });
+  });
+
+  it('rolls back open transactions and detaches the client on release', async () => {
+    const { pool, conns } = poolWith();
+    const client = await pool.acquire();
+    await client.beginTransaction();
+    await client.close();
+
+    expect(conns[0].rollback).toHaveBeenCalledTimes(1);
+    expect(conns[0].setOption).toHaveBeenLastCalledWith('adbc.connection.autocommit', 'true');
+    await expect(client.execute('SELECT 1')).rejects.toThrow(ConnectionError);
+  });
+
+  it('discards a connection that failed transiently and retries on a replacement', async () => {
+    const { pool, conns } = poolWith({ retry: { initialDelayMs: 1 } });
+    const client = await pool.acquire();
+    conns[0].query.mockRejectedValueOnce(Object.assign(new Error('reset'), { code: 'IO' }));
+
+    await expect(client.execute('SELECT 1')).resolves.toBe(resultData);
+    expect(conns[0].close).toHaveBeenCalled();
+    expect(conns[1].query).toHaveBeenCalledWith('SELECT 1');
+    expect(pool.stats).toEqual({ size: 1, idle: 0, borrowed: 1, waiting: 0 });
+    await client.close();
+    expect(pool.stats.idle).toBe(1);
+  });
+
+  it('opens a new database when the provider token is renewed', async () => {
+    let issued = 0;
+    const provider = jest.fn(async () => ({ token: `t${++issued}`, expiresAt: Date.now() + 1000 }));
+    const { pool, db: stale, conns } = poolWith({ token: provider });
+    const dbs: Array<{ token?: unknown; db: typeof stale }> = [];
+    const openDatabase = jest.spyOn(connection, 'openDatabase').mockImplementation((config) => {
+      const { db } = poolWith();
+      db.connect.mockImplementation(async () => {
+        const conn = fakeConn();
+        conns.push(conn);
+        return conn;
+      });
+      dbs.push({ token: config.token, db });
+      return db as any;
+    });
+    try {
+      const client = await pool.acquire();
+      expect(stale.close).toHaveBeenCalled();
+      await pool.release(client);
+
+      await new Promise((resolve) => setTimeout(resolve, 520));
+      const renewed = await pool.acquire();
+      expect(dbs.map((entry) => entry.token)).toEqual(['t1', 't2']);
+      // The idle connection with the old token was closed, and its database with it.
+      expect(conns[0].close).toHaveBeenCalled();
+      expect(dbs[0]!.db.close).toHaveBeenCalled();
+      expect(pool.stats).toEqual({ size: 1, idle: 0, borrowed: 1, waiting: 0 });
+      await pool.release(renewed);
+    } finally {
+      openDatabase.mockRestore();
+    }
+  });
+
+  it('closes idle connections above min after idleTimeoutMs', async () => {
+    const { pool, conns } = poolWith({ min: 1, idleTimeoutMs: 10 });
+    const a = await pool.acquire();
+    const b = await pool.acquire();
+    await pool.release(a);
+    await pool.release(b);
+    expect(pool.stats.idle).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(pool.stats).toEqual({ size: 1, idle: 1, borrowed: 0, waiting: 0 });
+    expect(conns.filter((c) => c.close.mock.calls.length > 0)).toHaveLength(1);
+  });
+
+  it('warms up to min connections after the first acquire()', async () => {
+    const { pool, db } = poolWith({ min: 2 });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(db.connect).not.toHaveBeenCalled();
+    await pool.acquire();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(db.connect).toHaveBeenCalledTimes(2);
+    expect(pool.stats).toEqual({ size: 2, idle: 1, borrowed: 1, waiting: 0 });
+  });
+
+  it('close() drains borrowed clients before closing the database', async () => {
+    const { pool, db, conns } = poolWith({ max: 1 });
+    const client = await pool.acquire();
+    const waiting = pool.acquire();
+
+    const closing = pool.close();
+    await expect(waiting).rejects.toThrow('Pool is closed');
+    await expect(pool.acquire()).rejects.toThrow('Pool is closed');
+    expect(db.close).not.toHaveBeenCalled();
+
+    await pool.release(client);
+    await closing;
+    expect(conns[0].close).toHaveBeenCalled();
+    expect(db.close).toHaveBeenCalledTimes(1);
+    expect(pool.stats.size).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { tableFromArrays, tableToIPC } from 'apache-arrow';
+import { FlightError } from '../src/errors';
+import { MemoryResultStore, ResultCache, normalizeSql } from '../src/result-cache';
+import { CachedResult } from '../src/types';
+
+const entry = (bytes: number, sql = 'SELECT 1'): CachedResult => ({
+  sql,
+  tags: [],
+  expiresAt: Number.MAX_SAFE_INTEGER,
+  data: new Uint8Array(bytes),
+});
+
+const table = tableFromArrays({ n: Int32Array.from([1, 2, 3]) });
+
+describe('normalizeSql', () => {
+  it('collapses whitespace and drops comments and a trailing semicolon', () => {
+    expect(normalizeSql('  SELECT *\n\tFROM t -- all rows\n WHERE /* hot */ x = 1 ;  ')).toBe(
+      'SELECT * FROM t WHERE x = 1'
+    );
+  });
+
+  it('keeps literals and quoted identifiers verbatim', () => {
+    expect(normalizeSql(`SELECT 'a  b', "my  col" FROM t WHERE s = '--  not a comment'`)).toBe(
+      `SELECT 'a  b', "my  col" FROM t WHERE s = '--  not a comment'`
+    );
+  });
+});
+
+describe('MemoryResultStore', () => {
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const store = new MemoryResultStore(2, 1000);
+    await store.set('a', entry(1));
+    await store.set('b', entry(1));
+    await store.get('a');
+    await store.set('c', entry(1));
+
+    expect((await store.entries()).map(([key]) => key)).toEqual(['a', 'c']);
+  });
+
+  it('evicts by size and skips entries larger than maxBytes', async () => {
+    const store = new MemoryResultStore(10, 100);
+    await store.set('a', entry(60));
+    await store.set('b', entry(60));
+    await store.set('huge', entry(101));
+
+    expect((await store.entries()).map(([key]) => key)).toEqual(['b']);
+  });
+});
+
+describe('ResultCache', () => {
+  it('keys queries by normalized SQL and typed parameters', () => {
+    const cache = new ResultCache();
+    const key = (sql: string, params: unknown[] = []) => cache.slot(sql, params as any).key;
+
+    expect(key('SELECT  1;')).toBe(key('SELECT 1'));
+    expect(key('SELECT ?', [1])).not.toBe(key('SELECT ?', ['1']));
+    expect(key('SELECT ?', [1])).not.toBe(key('SELECT ?', [1n]));
+    expect(key('SELECT ?', [new Date(0)])).toBe(key('SELECT ?', [new Date(0)]));
+  });
+
+  it('round-trips results through Arrow IPC until they expire', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const cache = new ResultCache({ ttlMs: 1000 });
+      const slot = cache.slot('SELECT n FROM t', []);
+      await cache.set(slot, table);
+
+      const cached = await cache.get(slot);
+      expect(cached?.toArray().map((row) => row.n)).toEqual([1, 2, 3]);
+
+      jest.setSystemTime(1000);
+      await expect(cache.get(slot)).resolves.toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('invalidates by pattern, by tag or entirely', async () => {
+    const cache = new ResultCache();
+    await cache.set(cache.slot('SELECT * FROM sales', [], { tags: ['dashboard'] }), table);
+    await cache.set(cache.slot('SELECT * FROM orders', []), table);
+    await cache.set(cache.slot('SELECT * FROM users', []), table);
+
+    await expect(cache.invalidate(/\bsales\b/)).resolves.toBe(1);
+    await expect(cache.invalidate({ tag: 'dashboard' })).resolves.toBe(0);
+    await expect(cache.invalidate()).resolves.toBe(2);
+  });
+
+  it('treats a failing store as a miss', async () => {
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('connection refused')),
+      set: jest.fn().mockRejectedValue(new Error('connection refused')),
+      delete: jest.fn(),
+      entries: jest.fn(),
+    };
+    const cache = new ResultCache({ store });
+    const slot = cache.slot('SELECT 1', []);
+
+    await expect(cache.set(slot, table)).resolves.toBeUndefined();
+    await expect(cache.get(slot)).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['garbage', Uint8Array.from([0xDE, 0xAD, 0xBE, 0xEF])],
+    ['truncated', tableToIPC(table, 'stream').slice(0, 100)],
+  ])('drops entries holding %s bytes', async (_kind, data) => {
+    const store = new MemoryResultStore();
+    const cache = new ResultCache({ store });
+    const slot = cache.slot('SELECT 1', []);
+    await store.set(slot.key, { ...entry(0), data });
+
+    await expect(cache.get(slot)).resolves.toBeUndefined();
+    await expect(store.get(slot.key)).resolves.toBeUndefined();
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => new ResultCache({ ttlMs: 0 })).toThrow(FlightError);
+    expect(() => new ResultCache({ maxEntries: 1.5 })).toThrow(FlightError);
+    expect(() => new ResultCache().slot('SELECT 1', [], { ttlMs: -1 })).toThrow(FlightError);
+  });
+});
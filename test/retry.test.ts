@@ -0,0 +1,56 @@
+import { backoffDelay, isTransientError, resolveRetryPolicy } from '../src/retry';
+import { ConnectionError, FlightError, FlightSQLError } from '../src/errors';
+
+describe('resolveRetryPolicy', () => {
+  it('tries once without a policy and three times with one', () => {
+    expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({})).toEqual({
+      maxAttempts: 3,
+      initialDelayMs: 100,
+      maxDelayMs: 5000,
+      multiplier: 2,
+      retryableCodes: ['IO', 'Timeout'],
+    });
+    expect(resolveRetryPolicy({ maxAttempts: 5 }).maxAttempts).toBe(5);
+  });
+
+  it('rejects invalid attempt counts', () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(FlightError);
+    expect(() => resolveRetryPolicy({ maxAttempts: 1.5 })).toThrow(FlightError);
+  });
+});
+
+describe('isTransientError', () => {
+  const policy = resolveRetryPolicy({});
+
+  it('matches errors by their ADBC code', () => {
+    expect(isTransientError(new ConnectionError('reset'), policy)).toBe(false);
+    const io = new ConnectionError('reset');
+    io.code = 'IO';
+    expect(isTransientError(io, policy)).toBe(true);
+    expect(isTransientError({ code: 'Timeout' }, policy)).toBe(true);
+    expect(isTransientError(new FlightSQLError('syntax', undefined, 'InvalidArguments'), policy)).toBe(false);
+    expect(isTransientError(undefined, policy)).toBe(false);
+  });
+
+  it('honours custom retryable codes', () => {
+    const custom = resolveRetryPolicy({ retryableCodes: ['Unavailable'] });
+    expect(isTransientError({ code: 'Unavailable' }, custom)).toBe(true);
+    expect(isTransientError({ code: 'IO' }, custom)).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2 });
+
+  it('grows exponentially with jitter in the upper half of the window', () => {
+    expect(backoffDelay(policy, 1, () => 0)).toBe(50);
+    expect(backoffDelay(policy, 1, () => 1)).toBe(100);
+    expect(backoffDelay(policy, 3, () => 0)).toBe(200);
+    expect(backoffDelay(policy, 3, () => 1)).toBe(400);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(backoffDelay(policy, 10, () => 1)).toBe(1000);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  Binary,
+  Decimal,
+  Dictionary,
+  Field,
+  FixedSizeBinary,
+  Int32,
+  Int64,
+  Interval,
+  IntervalUnit,
+  List,
+  Map_,
+  RecordBatch,
+  Schema,
+  Struct,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  makeData,
+  makeVector,
+  tableFromArrays,
+  vectorFromArray,
+} from 'apache-arrow';
+import { tableToObjects, wantsObjects } from '../src/rows';
+
+const decimalVector = (scale: number, words: number[]) =>
+  makeVector(
+    makeData({
+      type: new Decimal(scale, 38, 128),
+      length: 1,
+      nullCount: 0,
+      data: new Uint32Array(words),
+    })
+  );
+
+describe('tableToObjects', () => {
+  it('returns plain objects with nulls preserved', () => {
+    const table = tableFromArrays({ id: Int32Array.from([1, 2]), name: ['a', null] });
+    const rows = tableToObjects(table);
+    expect(rows).toEqual([
+      { id: 1, name: 'a' },
+      { id: 2, name: null },
+    ]);
+    expect(Object.getPrototypeOf(rows[0])).toBe(Object.prototype);
+  });
+
+  it('converts 64-bit integers per the bigint option (string by default)', () => {
+    const table = new Table({ n: vectorFromArray([9007199254740993n], new Int64()) });
+    expect(tableToObjects(table)).toEqual([{ n: '9007199254740993' }]);
+    expect(tableToObjects(table, { bigint: 'bigint' })).toEqual([{ n: 9007199254740993n }]);
+    expect(tableToObjects(table, { bigint: 'number' })).toEqual([{ n: 9007199254740992 }]);
+  });
+
+  it('applies the scale to decimals and treats scale-0 decimals (HUGEINT) as integers', () => {
+    const table = new Table({
+      price: decimalVector(2, [12345, 0, 0, 0]),
+      negative: decimalVector(3, [0xFFFFFFFF - 4, 0xFFFFFFFF, 0xFFFFFFFF, 0xFFFFFFFF]),
+      huge: decimalVector(0, [0, 0, 1, 0]),
+    });
+    expect(tableToObjects(table)).toEqual([
+      { price: '123.45', negative: '-0.005', huge: '18446744073709551616' },
+    ]);
+    expect(tableToObjects(table, { decimal: 'number', bigint: 'bigint' })).toEqual([
+      { price: 123.45, negative: -0.005, huge: 18446744073709551616n },
+    ]);
+  });
+
+  it('converts timestamps per the timestamp option', () => {
+    const at = new Date('2024-05-06T07:08:09.123Z');
+    const table = new Table({ at: vectorFromArray([at], new TimestampMillisecond()) });
+    expect(tableToObjects(table)).toEqual([{ at }]);
+    expect(tableToObjects(table, { timestamp: 'iso' })).toEqual([{ at: '2024-05-06T07:08:09.123Z' }]);
+    expect(tableToObjects(table, { timestamp: 'epochMs' })).toEqual([{ at: at.getTime() }]);
+  });
+
+  it('converts intervals, enums and UUIDs', () => {
+    const interval = makeVector(
+      makeData({
+        type: new Interval(IntervalUnit.MONTH_DAY_NANO),
+        length: 1,
+        nullCount: 0,
+        data: new Int32Array([14, 3, 1_000_000, 0]),
+      })
+    );
+    const uuid = makeVector(
+      makeData({
+        type: new FixedSizeBinary(16),
+        length: 1,
+        nullCount: 0,
+        data: Uint8Array.from(Buffer.from('0123456789abcdef0123456789abcdef', 'hex')),
+      })
+    );
+    const mood = vectorFromArray(['happy'], new Dictionary(new Utf8(), new Int32()));
+    const table = new Table({ span: interval, id: uuid, mood });
+    // DuckDB tags UUID columns with the arrow.uuid extension type.
+    const schema = new Schema(
+      table.schema.fields.map((f) =>
+        f.name === 'id'
+          ? new Field(f.name, f.type, f.nullable, new Map([['ARROW:extension:name', 'arrow.uuid']]))
+          : f
+      )
+    );
+    const tagged = new Table(
+      schema,
+      table.batches.map((batch) => new RecordBatch(schema, batch.data))
+    );
+    expect(tableToObjects(tagged)).toEqual([
+      {
+        span: { months: 14, days: 3, nanoseconds: '1000000' },
+        id: '01234567-89ab-cdef-0123-456789abcdef',
+        mood: 'happy',
+      },
+    ]);
+  });
+
+  it('converts nested LIST, STRUCT and MAP values recursively', () => {
+    const tags = vectorFromArray([[1n, 2n]], new List(new Field('item', new Int64())));
+    const point = vectorFromArray(
+      [{ x: 1, label: 'p' }],
+      new Struct<{ x: Int32; label: Utf8 }>([new Field('x', new Int32()), new Field('label', new Utf8())])
+    );
+    const attrs = vectorFromArray(
+      [new Map([['k', 7n]])],
+      new Map_(
+        new Field(
+          'entries',
+          new Struct<{ key: Utf8; value: Int64 }>([
+            new Field('key', new Utf8(), false),
+            new Field('value', new Int64()),
+          ])
+        )
+      )
+    );
+    const rows = tableToObjects(new Table({ tags, point, attrs }));
+    expect(rows).toEqual([{ tags: ['1', '2'], point: { x: 1, label: 'p' }, attrs: { k: '7' } }]);
+    expect(JSON.stringify(rows)).toBe('[{"tags":["1","2"],"point":{"x":1,"label":"p"},"attrs":{"k":"7"}}]');
+  });
+
+  it('encodes BLOBs as base64 unless raw bytes are asked for', () => {
+    const blob = vectorFromArray([Uint8Array.from([0xDE, 0xAD, 0xBE, 0xEF])], new Binary());
+    const table = new Table({ blob });
+    expect(tableToObjects(table)).toEqual([{ blob: '3q2+7w==' }]);
+    expect(tableToObjects(table, { binary: 'Uint8Array' })).toEqual([
+      { blob: Uint8Array.from([0xDE, 0xAD, 0xBE, 0xEF]) },
+    ]);
+  });
+});
+
+describe('wantsObjects', () => {
+  it('detects rowMode: objects', () => {
+    expect(wantsObjects({ rowMode: 'objects' })).toBe(true);
+    expect(wantsObjects({ timeoutMs: 1 })).toBe(false);
+    expect(wantsObjects()).toBe(false);
+  });
+});
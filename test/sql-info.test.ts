@@ -0,0 +1,156 @@
+import {
+  Bool,
+  DataType,
+  DenseUnion,
+  DenseUnionBuilder,
+  Field,
+  Int32,
+  Int64,
+  List,
+  Map_,
+  Struct,
+  Table,
+  Uint32,
+  Utf8,
+  makeBuilder,
+  vectorFromArray,
+} from 'apache-arrow';
+import { SqlInfo, buildServerInfo, decodeSqlInfoValue, parseSqlInfoTable } from '../src/sql-info';
+import { SqlInfoValue } from '../src/types';
+
+const listOf = <T extends DataType>(type: T) => new List(new Field('item', type, true));
+
+// The GetSqlInfo value union, in its protocol type-id order.
+const valueType = new DenseUnion(
+  [0, 1, 2, 3, 4, 5],
+  [
+    new Field('string_value', new Utf8()),
+    new Field('bool_value', new Bool()),
+    new Field('bigint_value', new Int64()),
+    new Field('int32_bitmask', new Int32()),
+    new Field('string_list', listOf(new Utf8())),
+    new Field(
+      'int32_to_int32_list_map',
+      new Map_(
+        new Field(
+          'entries',
+          new Struct<{ key: Int32; value: List<Int32> }>([
+            new Field('key', new Int32(), false),
+            new Field('value', listOf(new Int32())),
+          ]),
+          false,
+        ),
+      ),
+    ),
+  ],
+);
+
+/** Builds a GetSqlInfo result from [id, union type id, value] entries. */
+function sqlInfoTable(entries: [number, number, unknown][]): Table {
+  // makeBuilder() only types the common options; the union ones pass through.
+  const options: ConstructorParameters<typeof DenseUnionBuilder>[0] = {
+    type: valueType,
+    nullValues: [null, undefined],
+    valueToChildTypeId: (_builder, _value, index) => entries[index]![1],
+  };
+  const builder = makeBuilder(options);
+  for (const entry of entries) builder.append(entry[2]);
+  return new Table({
+    info_name: vectorFromArray(
+      entries.map(([id]) => id),
+      new Uint32(),
+    ),
+    info_value: builder.finish().toVector(),
+  });
+}
+
+describe('parseSqlInfoTable', () => {
+  it('decodes every member of the value union', () => {
+    const info = parseSqlInfoTable(
+      sqlInfoTable([
+        [SqlInfo.FLIGHT_SQL_SERVER_NAME, 0, 'GizmoSQL'],
+        [SqlInfo.FLIGHT_SQL_SERVER_READ_ONLY, 1, false],
+        [SqlInfo.SQL_MAX_STATEMENT_LENGTH, 2, 1024n],
+        [SqlInfo.SQL_SUPPORTED_GRAMMAR, 3, 0b011],
+        [SqlInfo.SQL_KEYWORDS, 4, ['PIVOT', 'QUALIFY']],
+        [SqlInfo.SQL_SUPPORTS_CONVERT, 5, new Map([[4, [5, 6]]])],
+      ]),
+    );
+    expect(info).toEqual(
+      new Map<number, SqlInfoValue>([
+        [0, 'GizmoSQL'],
+        [3, false],
+        [557, 1024n],
+        [525, 3],
+        [508, ['PIVOT', 'QUALIFY']],
+        [517, new Map([[4, [5, 6]]])],
+      ]),
+    );
+  });
+
+  it('returns an empty map for an unexpected schema', () => {
+    expect(parseSqlInfoTable(new Table({ other: vectorFromArray([1]) }))).toEqual(new Map());
+  });
+});
+
+describe('decodeSqlInfoValue', () => {
+  it('passes scalars through and maps null to null', () => {
+    expect(decodeSqlInfoValue('x')).toBe('x');
+    expect(decodeSqlInfoValue(2n)).toBe(2n);
+    expect(decodeSqlInfoValue(null)).toBeNull();
+    expect(decodeSqlInfoValue(['a', 1])).toEqual(['a', '1']);
+  });
+});
+
+describe('buildServerInfo', () => {
+  it('types the reported values', () => {
+    const info = new Map<number, SqlInfoValue>([
+      [SqlInfo.FLIGHT_SQL_SERVER_NAME, 'GizmoSQL'],
+      [SqlInfo.FLIGHT_SQL_SERVER_VERSION, 'v1.2.3'],
+      [SqlInfo.FLIGHT_SQL_SERVER_ARROW_VERSION, '19.0.0'],
+      [SqlInfo.FLIGHT_SQL_SERVER_READ_ONLY, false],
+      [SqlInfo.FLIGHT_SQL_SERVER_SQL, true],
+      [SqlInfo.FLIGHT_SQL_SERVER_TRANSACTION, 1],
+      [SqlInfo.FLIGHT_SQL_SERVER_CANCEL, true],
+      [SqlInfo.SQL_SUPPORTED_GRAMMAR, 0b011],
+      [SqlInfo.SQL_TRANSACTIONS_SUPPORTED, true],
+      [SqlInfo.SQL_DEFAULT_TRANSACTION_ISOLATION, 4],
+      [SqlInfo.SQL_SUPPORTED_TRANSACTIONS_ISOLATION_LEVELS, 0b10000],
+      [SqlInfo.SQL_IDENTIFIER_QUOTE_CHAR, '"'],
+      [SqlInfo.SQL_IDENTIFIER_CASE, 1],
+      [SqlInfo.SQL_QUOTED_IDENTIFIER_CASE, 0],
+      [SqlInfo.GIZMOSQL_INSTRUMENTATION_ENABLED, 1],
+      [SqlInfo.GIZMOSQL_INSTRUMENTATION_CATALOG, '_gizmosql_instr'],
+      [SqlInfo.GIZMOSQL_INSTRUMENTATION_SCHEMA, 'main'],
+    ]);
+    expect(buildServerInfo(info)).toEqual({
+      serverName: 'GizmoSQL',
+      serverVersion: 'v1.2.3',
+      arrowVersion: '19.0.0',
+      readOnly: false,
+      supportsSql: true,
+      supportsSubstrait: null,
+      supportsCancel: true,
+      sqlGrammar: ['minimum', 'core'],
+      transactionSupport: 'transaction',
+      transactionsSupported: true,
+      defaultIsolationLevel: 'serializable',
+      supportedIsolationLevels: ['serializable'],
+      identifierQuoteChar: '"',
+      identifierCase: 'insensitive',
+      quotedIdentifierCase: 'unknown',
+      instrumentation: {
+        enabled: true,
+        catalog: '_gizmosql_instr',
+        schema: 'main',
+      },
+    });
+  });
+
+  it('leaves unreported and out-of-range values null', () => {
+    const serverInfo = buildServerInfo(new Map([[SqlInfo.FLIGHT_SQL_SERVER_TRANSACTION, 9]]));
+    expect(serverInfo.transactionSupport).toBeNull();
+    expect(serverInfo.serverName).toBeNull();
+    expect(serverInfo.sqlGrammar).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { FlightError, FlightSQLError } from '../src/errors';
+import { SqlFragment, sql } from '../src/sql';
+import { clientWith, fakeConnWith, fakeStatement } from './helpers';
+
+describe('sql tagged template', () => {
+  it('binds interpolated values as positional parameters', () => {
+    const since = new Date('2026-01-01T00:00:00Z');
+    const query = sql`SELECT * FROM ${sql.id('sales', 'orders')} WHERE region = ${"EU'; DROP TABLE x; --"} AND ts > ${since}`;
+
+    expect(query.text).toBe('SELECT * FROM "sales"."orders" WHERE region = ? AND ts > ?');
+    expect(query.params).toEqual(["EU'; DROP TABLE x; --", since]);
+  });
+
+  it('quotes identifiers for DuckDB', () => {
+    expect(sql.id('my "odd" table').text).toBe('"my ""odd"" table"');
+    expect(() => sql.id()).toThrow(FlightError);
+    expect(() => sql.id('main', '')).toThrow(FlightError);
+  });
+
+  it('composes fragments, joins and raw text in order', () => {
+    const filters = [sql`region = ${'EU'}`, sql`amount > ${100}`];
+    const query = sql`SELECT ${sql.join([sql.id('region'), sql.raw('sum(amount)')])} FROM t WHERE ${sql.join(
+      filters,
+      sql` AND `
+    )} AND id IN (${sql.join([1, 2n, null])})`;
+
+    expect(query.text).toBe(
+      'SELECT "region", sum(amount) FROM t WHERE region = ? AND amount > ? AND id IN (?, ?, ?)'
+    );
+    expect(query.params).toEqual(['EU', 100, 1, 2n, null]);
+  });
+
+  it('rejects undefined values', () => {
+    expect(() => sql`SELECT ${undefined as unknown as null}`).toThrow(FlightError);
+  });
+
+  it('refuses to turn into a string', () => {
+    const fragment = sql`SELECT ${1}`;
+    expect(() => `${fragment}`).toThrow(FlightError);
+    expect(() => String(fragment)).toThrow(FlightError);
+  });
+
+  it('runs through execute() with its parameters bound', async () => {
+    const statement = fakeStatement();
+    const { client } = clientWith(fakeConnWith(statement));
+
+    await client.execute(sql`SELECT n FROM ${sql.id('t')} WHERE n = ${1}`);
+
+    expect(statement.setSqlQuery).toHaveBeenCalledWith('SELECT n FROM "t" WHERE n = ?');
+    expect(statement.bind.mock.calls[0][0].numRows).toBe(1);
+    await expect(client.execute(sql`SELECT ${1}`, [2] as any)).rejects.toThrow(FlightSQLError);
+  });
+
+  it('is a typed fragment rather than a string', () => {
+    expect(sql`SELECT 1`).toBeInstanceOf(SqlFragment);
+  });
+});
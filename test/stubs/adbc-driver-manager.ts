@@ -10,6 +10,13 @@ export const ObjectDepth = {
   Tables: 3,
 } as const;
 
+export const IngestMode = {
+  Create: 'adbc.ingest.mode.create',
+  Append: 'adbc.ingest.mode.append',
+  Replace: 'adbc.ingest.mode.replace',
+  CreateAppend: 'adbc.ingest.mode.create_append',
+} as const;
+
 export class AdbcError extends Error {
   constructor(
     message: string,
@@ -0,0 +1,129 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { tableFromArrays } from 'apache-arrow';
+import { FlightSQLPool } from '../src/pool';
+import { TRACE_PARENT_OPTION } from '../src/tracing';
+import { FlightSQLClientConfig } from '../src/types';
+import { asAny, clientWith, fakeConn } from './helpers';
+
+const exporter = new InMemorySpanExporter();
+const tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+afterEach(() => exporter.reset());
+
+function tracedClient(config: Partial<FlightSQLClientConfig> = {}) {
+  const conn = fakeConn({
+    query: jest.fn().mockResolvedValue(tableFromArrays({ n: Int32Array.from([1, 2, 3]) })),
+    getTableTypes: jest.fn().mockResolvedValue(tableFromArrays({ table_type: ['TABLE'] })),
+  });
+  return clientWith(conn, { host: 'gizmo.example', port: 31337, tracing: { tracerProvider }, ...config });
+}
+
+describe('tracing', () => {
+  it('records a client span per call with database attributes', async () => {
+    const { client } = tracedClient({ redactSql: (sql) => sql.split(/\d+/).join('N') });
+
+    await client.execute('SELECT 42');
+    await client.getTableTypes();
+
+    const [query, metadata] = exporter.getFinishedSpans();
+    expect(query!.name).toBe('gizmosql.execute');
+    expect(query!.kind).toBe(SpanKind.CLIENT);
+    expect(query!.attributes).toEqual({
+      'db.system': 'gizmosql',
+      'db.operation': 'execute',
+      'db.statement': 'SELECT N',
+      'server.address': 'gizmo.example',
+      'server.port': 31337,
+      'db.response.returned_rows': 3,
+    });
+    expect(metadata!.name).toBe('gizmosql.getTableTypes');
+    expect(metadata!.attributes).not.toHaveProperty('db.statement');
+  });
+
+  it('omits the statement when captureStatement is false', async () => {
+    const { client } = tracedClient({ tracing: { tracerProvider, captureStatement: false } });
+
+    await client.execute('SELECT secret');
+
+    expect(exporter.getFinishedSpans()[0]!.attributes).not.toHaveProperty('db.statement');
+  });
+
+  it('hands the span context to the driver before each call', async () => {
+    const { client, conn } = tracedClient();
+
+    await client.execute('SELECT 1');
+    await client.execute('SELECT 2');
+
+    const [first, second] = exporter.getFinishedSpans().map((span) => span.spanContext());
+    expect(conn.setOption.mock.calls).toEqual([
+      [TRACE_PARENT_OPTION, `00-${first!.traceId}-${first!.spanId}-01`],
+      [TRACE_PARENT_OPTION, `00-${second!.traceId}-${second!.spanId}-01`],
+    ]);
+  });
+
+  it('sends each of two overlapping calls its own trace context', async () => {
+    const { client, conn } = tracedClient();
+
+    await Promise.all([client.execute('SELECT 1'), client.execute('SELECT 2')]);
+
+    const traceParents = exporter
+      .getFinishedSpans()
+      .map((span) => span.spanContext())
+      .map(({ traceId, spanId }) => `00-${traceId}-${spanId}-01`);
+    const sent = conn.setOption.mock.calls.map(([, value]) => value);
+    expect(sent).toHaveLength(2);
+    expect(sent).toEqual(expect.arrayContaining(traceParents));
+  });
+
+  it('marks failed calls as errors', async () => {
+    const { client, conn } = tracedClient();
+    conn.query.mockRejectedValue(Object.assign(new Error('no such table'), { code: 'NotFound' }));
+
+    await expect(client.execute('SELECT * FROM missing')).rejects.toThrow('no such table');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span!.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: expect.stringContaining('no such table'),
+    });
+    expect(span!.attributes['error.type']).toBe('NotFound');
+    expect(span!.events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('still runs the call when the driver rejects the trace context', async () => {
+    const { client, conn } = tracedClient();
+    conn.setOption.mockRejectedValue(new Error('unknown option'));
+
+    await expect(client.execute('SELECT 1')).resolves.toBeDefined();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+  });
+
+  it('leaves the driver untouched when tracing is off', async () => {
+    const { client, conn } = tracedClient({ tracing: false });
+
+    await client.execute('SELECT 1');
+
+    expect(conn.setOption).not.toHaveBeenCalled();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('traces pooled clients with the pool configuration', async () => {
+    const pool = new FlightSQLPool({ host: 'gizmo.example', port: 31337, tracing: { tracerProvider } });
+    const conn = fakeConn();
+    asAny(pool).db = {
+      connect: jest.fn().mockResolvedValue(conn),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const client = await pool.acquire();
+    await client.execute('SELECT 1');
+
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual(['gizmosql.execute']);
+    expect(conn.setOption).toHaveBeenCalledWith(TRACE_PARENT_OPTION, expect.stringMatching(/^00-/));
+  });
+});
@@ -1,9 +1,10 @@
-import { createConnectionString, validateConfig, toClientError } from '../src/utils';
+import { createConnectionString, validateConfig, toClientError, isReadOnlyQuery } from '../src/utils';
 import {
   AuthenticationError,
   ConnectionError,
   FlightError,
   FlightSQLError,
+  QueryCancelledError,
 } from '../src/errors';
 
 describe('createConnectionString', () => {
@@ -29,6 +30,12 @@ describe('validateConfig', () => {
     expect(() => validateConfig({ host: 'localhost', port: 0 })).toThrow(FlightError);
     expect(() => validateConfig({ host: 'localhost', port: -1 })).toThrow(FlightError);
   });
+
+  it('requires mTLS certificate and key together', () => {
+    expect(() => validateConfig({ host: 'localhost', port: 1, tlsClientCert: 'cert.pem' })).toThrow(
+      'tlsClientCert and tlsClientKey must be set together'
+    );
+  });
 });
 
 describe('toClientError (ADBC error mapping)', () => {
@@ -47,6 +54,13 @@ describe('toClientError (ADBC error mapping)', () => {
     const err = toClientError({ message: 'refused', code: 'IO' }, 'Failed to connect');
     expect(err).toBeInstanceOf(ConnectionError);
     expect(err.message).toContain('Failed to connect');
+    expect(err.code).toBe('IO');
+  });
+
+  it('maps Cancelled to QueryCancelledError', () => {
+    const err = toClientError({ message: 'stopped', code: 'Cancelled' }, 'Failed to execute');
+    expect(err).toBeInstanceOf(QueryCancelledError);
+    expect(err.code).toBe('Cancelled');
   });
 
   it('uses the fallback class with the ADBC code preserved', () => {
@@ -60,3 +74,22 @@ describe('toClientError (ADBC error mapping)', () => {
     expect(err.message).toContain('plain string failure');
   });
 });
+
+describe('isReadOnlyQuery', () => {
+  it('accepts single read-only statements', () => {
+    expect(isReadOnlyQuery('SELECT 1')).toBe(true);
+    expect(isReadOnlyQuery('  with t AS (SELECT 1) SELECT * FROM t;')).toBe(true);
+    expect(isReadOnlyQuery('DESCRIBE orders')).toBe(true);
+    expect(isReadOnlyQuery("SELECT 'insert into x' AS s -- drop table y")).toBe(true);
+  });
+
+  it('rejects writes, DDL and multiple statements', () => {
+    expect(isReadOnlyQuery('INSERT INTO t VALUES (1)')).toBe(false);
+    expect(isReadOnlyQuery('CREATE TABLE t AS SELECT 1')).toBe(false);
+    expect(isReadOnlyQuery('WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d')).toBe(false);
+    expect(isReadOnlyQuery('SELECT 1; DROP TABLE t')).toBe(false);
+    expect(isReadOnlyQuery("SELECT '--'; DROP TABLE t")).toBe(false);
+    expect(isReadOnlyQuery("SELECT 'unterminated")).toBe(false);
+    expect(isReadOnlyQuery('')).toBe(false);
+  });
+});